@@ -0,0 +1,93 @@
+// Rate sensitivity grid on the 30-year weekly loan, run with `npm run benchmark`.
+const {Loan} = require('../dist');
+
+const RATES = 200;
+
+function grid(calculate) {
+    const loan = new Loan({amount: 600000, years: 30, repaymentFrequency: 'weekly', extraPayment: 20});
+    for (let i = 0; i < RATES; ++i) {
+        loan.interestRate = 2 + i * 0.05;
+        calculate(loan);
+    }
+}
+
+/**
+ * Schedule calculation of the first library version (before payment dates, fees, events etc.),
+ * for the same loan, as the baseline the calculation times are compared with.
+ */
+function baselineSchedule(amount, years, rate, extra) {
+    const round = num => Math.round((num + Number.EPSILON) * 1e8) / 1e8;
+    // weekly repayment derived from the monthly one
+    const monthlyRate = rate / 12 / 100;
+    const x = Math.pow(1 + monthlyRate, years * 12);
+    const repayment = round(amount * x * monthlyRate / (x - 1)) / 4;
+    const periodRate = rate / 52 / 100;
+    const payments = [];
+    let totalCost = 0;
+    let totalInterest = 0;
+    let balance = amount;
+    for (let p = 0, n = years * 52; balance > 0 && p < n; ++p) {
+        const interest = round(periodRate * balance);
+        const principal = Math.min(round(repayment - interest + extra), balance);
+        const payment = {
+            amount: round(Math.min(repayment + extra, balance + interest)),
+            principal: principal,
+            interest: interest,
+            balance: round(balance - principal)
+        };
+        balance = payment.balance;
+        payments.push(payment);
+        totalCost += payment.amount;
+        totalInterest += payment.interest;
+    }
+    return {payments: payments, totalCost: totalCost, totalInterest: totalInterest};
+}
+
+const RUNS = 5;
+
+/**
+ * @return Best time of the runs after the warm up, ms.
+ */
+function bench(name, fn) {
+    fn();
+    let best = Infinity;
+    for (let run = 0; run < RUNS; ++run) {
+        const start = process.hrtime();
+        fn();
+        const [s, ns] = process.hrtime(start);
+        best = Math.min(best, s * 1000 + ns / 1e6);
+    }
+    console.log(`${name}: ${best.toFixed(1)} ms`);
+    return best;
+}
+
+const baseline = bench('baseline schedule', () => {
+    for (let i = 0; i < RATES; ++i) {
+        baselineSchedule(600000, 30, 2 + i * 0.05, 20);
+    }
+});
+const payments = bench('payments (full schedule)', () => grid(loan => loan.payments.length));
+const summary = bench('summary()', () => grid(loan => loan.summary().totalInterest));
+const iterator = bench('paymentsIterator() until paid half', () => grid(loan => {
+    const half = loan.amount / 2;
+    const it = loan.paymentsIterator();
+    for (let next = it.next(); !next.done && next.value.balance > half; next = it.next()) {
+    }
+}));
+console.log(`payments time: ${(payments / baseline).toFixed(2)}x the baseline`);
+console.log(`summary() time: ${(summary / baseline).toFixed(2)}x the baseline, ${(payments / summary).toFixed(2)}x faster than payments`);
+console.log(`paymentsIterator() time: ${(iterator / baseline).toFixed(2)}x the baseline`);
+
+const loan = new Loan({amount: 600000, years: 30, interestRate: 6, repaymentFrequency: 'weekly'});
+const N = 100000;
+const uncached = bench(`repaymentAmount x ${N} (not cached)`, () => {
+    for (let i = 0; i < N; ++i) {
+        loan.clone().repaymentAmount;
+    }
+});
+const cached = bench(`repaymentAmount x ${N} (cached)`, () => {
+    for (let i = 0; i < N; ++i) {
+        loan.repaymentAmount;
+    }
+});
+console.log(`repaymentAmount speedup: ${(uncached / cached).toFixed(2)}x`);
@@ -0,0 +1,149 @@
+/**
+ * Details of the ARM (Adjustable Rate Mortgage) rate adjustment.
+ */
+export interface RateAdjustmentContext {
+    /**
+     * Adjustment number, 0 for the first adjustment after the fixed rate period.
+     */
+    adjustment: number;
+
+    /**
+     * Repayment number (0-based index in the payment schedule) the new rate applies from.
+     */
+    repayment: number;
+
+    /**
+     * Repayment date the new rate applies from.
+     */
+    date: Date;
+
+    /**
+     * Interest rate before the adjustment, 0-100.
+     */
+    currentRate: number;
+
+    /**
+     * Initial (fixed period) interest rate, 0-100.
+     */
+    initialRate: number;
+}
+
+/**
+ * Calculates the ARM (Adjustable Rate Mortgage) interest rate at each adjustment point.
+ * Strategies should not keep state between calls, as the same strategy is used
+ * by loan clones and each calculation of the payment schedule.
+ */
+export interface RateAdjustmentStrategy {
+    /**
+     * @return New interest rate, 0-100.
+     */
+    adjust(context: RateAdjustmentContext): number;
+}
+
+/**
+ * Trivial strategy: starts with the initial variable rate and increases it
+ * by the fixed adjustment each time, up to the maximum rate.
+ */
+export class StepRateAdjustment implements RateAdjustmentStrategy {
+
+    /**
+     * @param initialVariableRate Rate after the fixed rate period, 0-100.
+     * @param adjustmentRate Rate increase with each following adjustment, 0-100.
+     * @param maximumRate Max interest rate, 0-100.
+     */
+    constructor(readonly initialVariableRate: number,
+                readonly adjustmentRate: number,
+                readonly maximumRate: number) {
+    }
+
+    adjust(context: RateAdjustmentContext): number {
+        if (context.adjustment === 0) {
+            return this.initialVariableRate;
+        }
+        return Math.min(context.currentRate + this.adjustmentRate, this.maximumRate);
+    }
+}
+
+export interface IndexMarginRateAdjustmentOptions {
+    /**
+     * Expected index rate (e.g. SOFR), 0-100.
+     * Either a constant or the index rate for each adjustment,
+     * the last one being used for all further adjustments.
+     */
+    index: number | number[];
+
+    /**
+     * Margin added to the index, 0-100.
+     */
+    margin: number;
+
+    /**
+     * Max rate change at the first adjustment, e.g. 2 for 2/1/5 caps.
+     * No cap if not set.
+     */
+    initialCap?: number;
+
+    /**
+     * Max rate change at each following adjustment, e.g. 1 for 2/1/5 caps.
+     * No cap if not set.
+     */
+    periodicCap?: number;
+
+    /**
+     * Max rate increase over the initial rate for the loan lifetime, e.g. 5 for 2/1/5 caps.
+     * No cap if not set.
+     */
+    lifetimeCap?: number;
+
+    /**
+     * Min interest rate, 0-100.
+     * Default is the margin.
+     */
+    floor?: number;
+}
+
+/**
+ * Index + margin strategy used by the US ARMs (e.g. 5/1 or 7/6 SOFR ARM),
+ * with initial, periodic and lifetime caps and the rate floor.
+ * The rate can be adjusted both up and down.
+ */
+export class IndexMarginRateAdjustment implements RateAdjustmentStrategy {
+
+    constructor(readonly options: IndexMarginRateAdjustmentOptions) {
+    }
+
+    adjust(context: RateAdjustmentContext): number {
+        const o = this.options;
+        const index = typeof o.index === 'number' ? o.index : pick(o.index, context.adjustment);
+        let rate = index + o.margin;
+        const cap = context.adjustment === 0 ? o.initialCap : o.periodicCap;
+        if (cap !== undefined) {
+            rate = Math.min(Math.max(rate, context.currentRate - cap), context.currentRate + cap);
+        }
+        if (o.lifetimeCap !== undefined) {
+            rate = Math.min(rate, context.initialRate + o.lifetimeCap);
+        }
+        return Math.max(rate, o.floor !== undefined ? o.floor : o.margin);
+    }
+}
+
+/**
+ * Strategy with the explicit list of future interest rates.
+ */
+export class ScheduledRateAdjustment implements RateAdjustmentStrategy {
+
+    /**
+     * @param rates Interest rate for each adjustment, 0-100,
+     * the last one being used for all further adjustments.
+     */
+    constructor(readonly rates: number[]) {
+    }
+
+    adjust(context: RateAdjustmentContext): number {
+        return this.rates.length ? pick(this.rates, context.adjustment) : context.currentRate;
+    }
+}
+
+function pick(values: number[], i: number): number {
+    return values[Math.min(i, values.length - 1)];
+}
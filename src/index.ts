@@ -1,5 +1,44 @@
+import {RateAdjustmentStrategy, StepRateAdjustment} from './arm';
+import {LoanJSON, loanOptionsFromJSON, loanOptionsToJSON} from './json';
+import {irr} from './math';
+import {LoanResult, toLoanResult} from './result';
+import {LoanValidationError, LoanValidationIssue, validateLoan} from './validation';
+
+export * from './arm';
+export * from './json';
+export * from './refinance';
+export * from './result';
+export * from './solver';
+export * from './split';
+export * from './stress';
+export * from './validation';
+
 export type RepaymentFrequency = 'yearly' | 'quarterly' | 'monthly' | 'fortnightly' | 'weekly';
 
+/**
+ * Day count convention used to calculate interest for a repayment period.
+ * 'none' splits the yearly rate evenly between repayments (rate / payments per year),
+ * other conventions use the actual payment dates.
+ */
+export type DayCountConvention = 'none' | 'actual/365' | 'actual/360' | '30/360';
+
+/**
+ * How the loan is amortised:
+ * 'annuity' - equal repayments,
+ * 'linear' - equal principal parts, falling repayments,
+ * 'flat' - equal repayments with interest on the original loan amount,
+ * 'rule-of-78' - annuity repayments with the total interest allocated by the Rule of 78 (sum of digits),
+ * front-loading interest and raising the early payout amount.
+ */
+export type AmortisationMethod = 'annuity' | 'linear' | 'flat' | 'rule-of-78';
+
+/**
+ * How interest is accrued: 'period' charges the periodic rate on the balance at the start
+ * of the repayment period, 'daily' accrues interest on the daily balance and charges it
+ * with the repayment.
+ */
+export type InterestAccrual = 'period' | 'daily';
+
 export interface LoanPayment {
     /**
      * Payment amount.
@@ -20,6 +59,248 @@ export interface LoanPayment {
      * Remaining balance.
      */
     balance: number;
+
+    /**
+     * Interest rate used for the repayment period, 0-100.
+     */
+    rate: number;
+
+    /**
+     * Scheduled repayment in effect for the repayment period (excluding extra payments).
+     */
+    repayment: number;
+
+    /**
+     * Payment due date.
+     */
+    date: Date;
+
+    /**
+     * Extra payment part (included in the principal part).
+     */
+    extra: number;
+
+    /**
+     * Offset account balance after the repayment.
+     */
+    offsetBalance: number;
+
+    /**
+     * Fees charged with the repayment, not included in the payment amount.
+     */
+    fees: number;
+
+    /**
+     * Mortgage insurance premium charged with the repayment, not included in the payment amount.
+     */
+    insurance: number;
+
+    /**
+     * Escrowed property tax part of the repayment period outlay, not included in the payment amount.
+     */
+    propertyTax: number;
+
+    /**
+     * Escrowed homeowner's insurance part of the repayment period outlay, not included in the payment amount.
+     */
+    homeInsurance: number;
+
+    /**
+     * HOA (homeowners association) dues for the repayment period, not included in the payment amount.
+     */
+    hoaDues: number;
+
+    /**
+     * Balloon (residual) part of the payment amount, paid with the last repayment of the loan term.
+     */
+    balloon: number;
+
+    /**
+     * Phase of the loan the repayment belongs to.
+     */
+    phase: RepaymentPhase;
+
+    /**
+     * Amount redrawn with the repayment (added to the balance).
+     */
+    redraw: number;
+
+    /**
+     * Amount available for redraw after the repayment,
+     * i.e. the amount paid ahead of the contractual balance.
+     */
+    availableRedraw: number;
+}
+
+/**
+ * Event happening with a repayment (one-off) or with each repayment in a range (recurring).
+ */
+export interface RepaymentEvent {
+    /**
+     * Repayment number (0-based index in the payment schedule) or date of the event.
+     * Event happening on a date is applied to the first repayment due on or after this date.
+     */
+    start: number | Date;
+
+    /**
+     * Last repayment number or date (inclusive) for the recurring event.
+     * One-off event if neither end nor recurring is set.
+     */
+    end?: number | Date;
+
+    /**
+     * Whether the event recurs with each repayment from start till the end
+     * (or till the loan is paid off if the end is not set).
+     */
+    recurring?: boolean;
+}
+
+/**
+ * How extra principal payments affect the loan:
+ * 'reduce-term' keeps the repayment amount, paying off the loan earlier,
+ * 'recast' recalculates a lower repayment over the remaining term.
+ */
+export type PrepaymentHandling = 'reduce-term' | 'recast';
+
+/**
+ * Extra payment made in addition to the regular repayments.
+ */
+export interface ExtraPaymentEvent extends RepaymentEvent {
+    /**
+     * Extra payment amount.
+     */
+    amount: number;
+}
+
+/**
+ * Variable interest rate change.
+ */
+export interface RateChange {
+    /**
+     * Repayment number (0-based index in the payment schedule) or date the new rate applies from.
+     * Rate changed on a date applies from the first repayment due on or after this date.
+     */
+    start: number | Date;
+
+    /**
+     * New interest rate, 0-100.
+     */
+    rate: number;
+}
+
+/**
+ * Redraw of the amount paid ahead of the contractual balance.
+ */
+export interface RedrawEvent extends RepaymentEvent {
+    /**
+     * Amount to redraw, limited to the amount available for redraw.
+     */
+    amount: number;
+}
+
+/**
+ * Offset account deposit or withdrawal.
+ */
+export interface OffsetTransaction extends RepaymentEvent {
+    /**
+     * Deposit (positive) or withdrawal (negative) amount.
+     */
+    amount: number;
+}
+
+/**
+ * Phase of the loan the repayment belongs to.
+ */
+export type RepaymentPhase = 'amortising' | 'interest-only' | 'pause';
+
+/**
+ * Hardship arrangement: repayments paused (interest capitalised into the balance)
+ * or interest only with the repayment or for each repayment in a range.
+ */
+export interface RepaymentHoliday extends RepaymentEvent {
+    type: 'pause' | 'interest-only';
+}
+
+/**
+ * How the loan continues after a repayment holiday:
+ * 'recast' recalculates the repayment over the remaining term,
+ * 'extend-term' keeps the repayment amount, extending the loan term.
+ */
+export type RepaymentHolidayHandling = 'recast' | 'extend-term';
+
+/**
+ * Loan totals calculated without keeping the payment schedule.
+ */
+export interface LoanSummary {
+    repaymentAmount: number;
+
+    /**
+     * Number of payments until the loan is paid off.
+     */
+    paymentsCount: number;
+
+    /**
+     * Date of the last payment, or null if there are no payments.
+     */
+    payoffDate: Date | null;
+
+    totalCost: number;
+    totalInterest: number;
+    totalFees: number;
+    totalInsurance: number;
+    totalPropertyTax: number;
+    totalHomeInsurance: number;
+    totalHoaDues: number;
+}
+
+/**
+ * Totals of the payments made in the period, e.g. in the financial year.
+ */
+export interface LoanPeriodSummary {
+    /**
+     * Calendar year, financial year (named by the calendar year it ends in, e.g. 2025 for July 2024 - June 2025)
+     * or number of the group of repayments, starting from 0.
+     */
+    period: number;
+
+    /**
+     * Dates of the first and the last payments in the period.
+     */
+    startDate: Date;
+    endDate: Date;
+
+    paymentsCount: number;
+
+    /**
+     * Balance before the first payment in the period.
+     */
+    openingBalance: number;
+
+    /**
+     * Balance after the last payment in the period.
+     */
+    closingBalance: number;
+
+    amount: number;
+    principal: number;
+    interest: number;
+    extra: number;
+    fees: number;
+    insurance: number;
+    propertyTax: number;
+    homeInsurance: number;
+    hoaDues: number;
+    redraw: number;
+
+    /**
+     * Totals from the loan start to the end of the period,
+     * including the upfront fees and insurance like the loan totals.
+     */
+    cumulativePrincipal: number;
+    cumulativeInterest: number;
+    cumulativeFees: number;
+    cumulativeInsurance: number;
+    cumulativeCost: number;
 }
 
 export interface LoanInterface {
@@ -60,6 +341,13 @@ export interface LoanInterface {
      */
     extraPayment: number;
 
+    /**
+     * Sets or gets one-off and recurring extra payments
+     * applied in addition to the extra payment above.
+     * Default is none.
+     */
+    extraPaymentEvents: ExtraPaymentEvent[];
+
     /**
      * Sets or gets the number of interest only repayments.
      * Overrides one previously defined in years (below).
@@ -74,6 +362,70 @@ export interface LoanInterface {
      */
     interestOnlyYears: number;
 
+    /**
+     * Sets or gets repayment pauses and interest only periods at any point of the loan term,
+     * taking precedence over the interest only repayments above.
+     * Interest is added to the balance during a pause, negative principal part showing the capitalised interest.
+     * Default is none.
+     */
+    repaymentHolidays: RepaymentHoliday[];
+
+    /**
+     * Sets or gets how the loan continues after a repayment holiday.
+     * Default is 'recast'.
+     */
+    repaymentHolidayHandling: RepaymentHolidayHandling;
+
+    /**
+     * Sets or gets the amortisation method.
+     * Weekly and fortnightly repayments are derived from the monthly repayment
+     * with the annuity method only.
+     * Default is 'annuity'.
+     */
+    amortisationMethod: AmortisationMethod;
+
+    /**
+     * Sets or gets the balloon (residual) amount left outstanding by the repayments
+     * and paid with the last repayment of the loan term.
+     * Weekly and fortnightly repayments derived from the monthly repayment pay ahead,
+     * lowering the last repayment.
+     * Overrides one previously defined in percentage (below).
+     * Default is 0.
+     */
+    balloonAmount: number;
+
+    /**
+     * Sets or gets the balloon (residual) amount in percentage of the loan amount, 0-100.
+     * Overrides one defined in amount (above).
+     * Default is 0.
+     */
+    balloonPercentage: number;
+
+    /**
+     * Sets or gets the yearly increase of the graduated repayments, 0-100.
+     * The first year repayment is calculated to pay off the loan with repayments
+     * increasing by this rate each year for the graduated payment years,
+     * then level for the rest of the term. Lower early repayments may not cover interest,
+     * increasing the balance (negative amortisation).
+     * Only used with the annuity amortisation method.
+     * Default is 0.
+     */
+    graduatedPaymentRate: number;
+
+    /**
+     * Sets or gets the number of years the graduated repayments increase for.
+     * Default is 0.
+     */
+    graduatedPaymentYears: number;
+
+    /**
+     * Sets or gets the max balance in percentage of the loan amount with negative amortisation,
+     * e.g. 110-125. Graduated repayments are recalculated as level repayments over
+     * the remaining term when the balance reaches it.
+     * Default is 0, which means no cap.
+     */
+    negativeAmortisationCap: number;
+
     /**
      * Whether to calculate weekly and fortnightly repayments based on the
      * yearly repayment amount, instead of deriving it from monthly repayment.
@@ -89,6 +441,214 @@ export interface LoanInterface {
      */
     rounding: number;
 
+    /**
+     * Whether to calculate money amounts in whole cents, rounding half up
+     * by the decimal (not binary floating point) value after each operation,
+     * so the payments reconcile to the cent with each other and the totals.
+     * Overrides rounding.
+     * Default is false.
+     */
+    exactDecimal: boolean;
+
+    /**
+     * Whether to throw LoanValidationError: from setters for invalid values
+     * (e.g. NaN or negative amounts, the previous value is restored), and from calculations
+     * for any validation issues (e.g. the interest only period longer than the loan term).
+     * Default is false, which means to return no payments for the invalid loan.
+     * @see validate
+     */
+    strictValidation: boolean;
+
+    /**
+     * Sets or gets how extra and lump sum payments affect the loan.
+     * Default is 'reduce-term'.
+     */
+    prepaymentHandling: PrepaymentHandling;
+
+    /**
+     * Sets or gets repayment numbers (0-based index in the payment schedule) or dates
+     * to recast the loan at, if there were extra payments since the previous recast.
+     * Recast applies from the first repayment due on or after the date.
+     * Default is none, which means to recast with the repayment following each extra payment.
+     * Only used with the 'recast' prepayment handling.
+     */
+    recastPoints: Array<number | Date>;
+
+    /**
+     * Sets or gets redraws of the amount paid ahead with extra payments.
+     * Redraws are applied after the repayment, increasing the balance.
+     * Default is none.
+     */
+    redrawEvents: RedrawEvent[];
+
+    // Fees
+
+    /**
+     * Sets or gets the upfront establishment (application) fee.
+     * Default is 0.
+     */
+    establishmentFee: number;
+
+    /**
+     * Sets or gets the monthly account keeping fee,
+     * charged with each repayment proportionally to the repayment frequency.
+     * Default is 0.
+     */
+    monthlyFee: number;
+
+    /**
+     * Sets or gets the annual fee, charged with the first repayment of each loan year.
+     * Default is 0.
+     */
+    annualFee: number;
+
+    /**
+     * Sets or gets the discharge (exit) fee, charged with the last repayment.
+     * Default is 0.
+     */
+    dischargeFee: number;
+
+    // Mortgage insurance
+
+    /**
+     * Sets or gets the property value, used for the LVR (loan-to-value ratio).
+     * Default is 0, which means unknown.
+     */
+    propertyValue: number;
+
+    /**
+     * Sets or gets the upfront LMI (lenders mortgage insurance) premium.
+     * Default is 0.
+     */
+    lmiPremium: number;
+
+    /**
+     * Whether to add the LMI premium to the loan amount instead of paying it upfront.
+     * Default is false.
+     */
+    capitaliseLmi: boolean;
+
+    /**
+     * Sets or gets the PMI (private mortgage insurance) yearly rate, 0-100,
+     * of the original loan amount, charged with each repayment
+     * till the LVR reaches the cancellation LVR.
+     * Default is 0.
+     */
+    pmiRate: number;
+
+    /**
+     * Sets or gets the LVR, 0-100, of the original property value to cancel PMI at.
+     * PMI is never cancelled if the property value is unknown.
+     * Default is 78.
+     */
+    pmiCancellationLvr: number;
+
+    // Escrow
+
+    /**
+     * Sets or gets the yearly property tax, spread across the repayments.
+     * Default is 0.
+     */
+    propertyTax: number;
+
+    /**
+     * Sets or gets the yearly property tax growth rate, 0-100.
+     * Default is 0.
+     */
+    propertyTaxGrowthRate: number;
+
+    /**
+     * Sets or gets the yearly homeowner's insurance premium, spread across the repayments.
+     * Default is 0.
+     */
+    homeInsurance: number;
+
+    /**
+     * Sets or gets the yearly homeowner's insurance growth rate, 0-100.
+     * Default is 0.
+     */
+    homeInsuranceGrowthRate: number;
+
+    /**
+     * Sets or gets the monthly HOA (homeowners association) dues,
+     * spread across the repayments.
+     * Default is 0.
+     */
+    hoaDues: number;
+
+    // Offset account
+
+    /**
+     * Sets or gets the initial offset account balance.
+     * Interest is charged on the loan balance less the offset balance.
+     * Default is 0.
+     */
+    offsetBalance: number;
+
+    /**
+     * Sets or gets offset account deposits and withdrawals.
+     * Transactions are applied with the repayment, changing the interest
+     * charged from the following repayment period.
+     * Default is none.
+     */
+    offsetTransactions: OffsetTransaction[];
+
+    // Dates
+
+    /**
+     * Loan start (settlement) date, interest for the first repayment is charged from this date.
+     * Default is the date the loan was created.
+     */
+    startDate: Date;
+
+    /**
+     * Sets or gets the first repayment date.
+     * Default is one repayment period after the start date.
+     * Following repayments are due every repayment period after this date,
+     * monthly, quarterly and yearly repayments are kept on the same day of month
+     * (or on the last day of shorter months, or on the last day of every month
+     * if the first repayment is due on the last day of a month).
+     */
+    firstPaymentDate: Date;
+
+    /**
+     * Day count convention for interest calculation.
+     * Default is 'none', which means interest rate / payments count per year.
+     */
+    dayCountConvention: DayCountConvention;
+
+    /**
+     * Sets or gets how interest is accrued.
+     * Default is 'period'. Daily accrual uses the actual days between the payment dates
+     * ('actual/365' unless another day count convention is set) and applies one-off extra payments,
+     * redraws and offset transactions due on a date from that date instead of the repayment date.
+     */
+    interestAccrual: InterestAccrual;
+
+    /**
+     * Sets or gets the variable interest rate changes over the loan term.
+     * Default is none.
+     */
+    rateChanges: RateChange[];
+
+    /**
+     * Whether to keep the repayment amount when the interest rate changes,
+     * changing the loan term instead.
+     * Default is false, which means to recalculate the repayment
+     * to pay off the loan by the end of the original term.
+     * The repayment is recalculated anyway if it does not cover the interest at the new rate.
+     */
+    keepRepaymentOnRateChange: boolean;
+
+    /**
+     * Percentage points added to all interest rates the loan is calculated with
+     * (the initial rate, ARM adjusted rates and rate changes), e.g. 3 for the serviceability buffer.
+     * Negative for the rate decrease, the rates don't go below 0.
+     * Default is 0.
+     * @see stressTest
+     */
+    interestRateShock: number;
+
     // ARM (Adjustable Rate Mortgage) options
 
     /**
@@ -136,6 +696,16 @@ export interface LoanInterface {
      */
     armMaximumInterestRate: number;
 
+    /**
+     * Sets or gets the ARM rate adjustment strategy called at each adjustment point,
+     * i.e. after the fixed rate period and then each ARM adjustment period.
+     * The repayment is recalculated over the remaining term when the rate changes.
+     * Default is null, which means to use the trivial strategy increasing
+     * the initial variable rate by the expected adjustment rate up to the maximum rate.
+     * @see StepRateAdjustment
+     */
+    armRateAdjustmentStrategy: RateAdjustmentStrategy | null;
+
     /**
      * Gets the average repayments _after_
      * interest-only repayment period.
@@ -143,39 +713,212 @@ export interface LoanInterface {
     readonly repaymentAmount: number;
 
     /**
-     * Total repayments sum.
+     * Total repayments sum, including fees.
      */
     readonly totalCost: number;
 
     /**
-     * Total interest charged.
+     * Total fees charged.
      */
-    readonly totalInterest: number;
-
-    readonly paymentsCountPerYear: number;
-    readonly paymentsCountTotal: number;
+    readonly totalFees: number;
 
     /**
-     * Payment schedule for the loan.
+     * Total mortgage insurance premiums, including the upfront LMI premium.
      */
-    readonly payments: LoanPayment[];
+    readonly totalInsurance: number;
 
-    // Methods
+    /**
+     * Total escrowed property tax.
+     */
+    readonly totalPropertyTax: number;
 
     /**
-     * To easily calculate differences between various loan options.
-     * @return Loan with the exact same options as the current one.
+     * Total escrowed homeowner's insurance.
+     */
+    readonly totalHomeInsurance: number;
+
+    /**
+     * Total HOA dues.
+     */
+    readonly totalHoaDues: number;
+
+    /**
+     * Total cost of the loan plus property tax, homeowner's insurance and HOA dues
+     * (PITI: principal, interest, taxes and insurance).
+     */
+    readonly totalOutlay: number;
+
+    /**
+     * Initial LVR (loan-to-value ratio), 0-100, including the capitalised LMI premium,
+     * or 0 if the property value is unknown.
+     */
+    readonly lvr: number;
+
+    /**
+     * US Regulation Z style APR (Annual Percentage Rate), 0-100,
+     * as the internal rate of return of the loan cash flows including fees.
+     */
+    readonly apr: number;
+
+    /**
+     * Australian comparison rate, 0-100, for the standard $150,000 loan over 25 years.
+     * @see #calcComparisonRate
+     */
+    readonly comparisonRate: number;
+
+    /**
+     * Total interest charged.
+     */
+    readonly totalInterest: number;
+
+    /**
+     * Interest saved with the offset account
+     * compared to the same loan without an offset.
+     */
+    readonly offsetInterestSaved: number;
+
+    /**
+     * Number of repayments saved with the offset account
+     * compared to the same loan without an offset.
+     */
+    readonly offsetRepaymentsSaved: number;
+
+    readonly paymentsCountPerYear: number;
+    readonly paymentsCountTotal: number;
+
+    /**
+     * Payment schedule for the loan.
+     */
+    readonly payments: LoanPayment[];
+
+    // Methods
+
+    /**
+     * To easily calculate differences between various loan options.
+     * @return Loan with the exact same options as the current one.
      */
     clone(): LoanInterface;
+
+    /**
+     * Immutable way to change the loan options.
+     * @return Frozen result calculated with the options changed, the current loan is kept unchanged.
+     * @throws LoanValidationError if the options are invalid and strictValidation is set.
+     */
+    with(options: LoanOptions): LoanResult;
+
+    /**
+     * Calculates the payments one by one when iterated,
+     * e.g. to stop early or to process long schedules without keeping them in memory.
+     * Changes of the loan options made after the call don't affect the iteration.
+     * @return Payment schedule iterator, same payments as the payments property.
+     */
+    paymentsIterator(): IterableIterator<LoanPayment>;
+
+    /**
+     * Calculates the totals only, without keeping the payment schedule,
+     * which is faster for the large number of scenarios.
+     * @return Totals of the payments property.
+     */
+    summary(): LoanSummary;
+
+    /**
+     * @return Payment schedule totals for each calendar year.
+     */
+    yearlySummaries(): LoanPeriodSummary[];
+
+    /**
+     * @param startMonth First month of the financial year, 1-12, July (7) by default.
+     * @return Payment schedule totals for each financial year.
+     */
+    financialYearSummaries(startMonth?: number): LoanPeriodSummary[];
+
+    /**
+     * @param count Number of repayments in the period, e.g. 12 for the loan years of the monthly repayments.
+     * @return Payment schedule totals for each N repayments.
+     */
+    periodSummaries(count: number): LoanPeriodSummary[];
+
+    /**
+     * Calculates the Australian comparison rate for the custom basis,
+     * i.e. the APR of the loan with the same rate and fees and monthly repayments,
+     * excluding extra payments, redraws and offset.
+     * @param amount Loan amount, $150,000 by default.
+     * @param years Loan term, 25 years by default.
+     * @return Comparison rate, 0-100.
+     */
+    calcComparisonRate(amount?: number, years?: number): number;
+
+    /**
+     * Validates the loan options, e.g. before the calculation.
+     * @return Issues found, empty if the loan is valid.
+     */
+    validate(): LoanValidationIssue[];
+
+    /**
+     * @return Adjustable properties of the loan.
+     */
+    toOptions(): LoanOptions;
+
+    /**
+     * @return Adjustable properties of the loan serialized to JSON,
+     * restored with Loan.fromJSON().
+     */
+    toJSON(): LoanJSON;
 }
 
+/**
+ * Adjustable loan properties, e.g. to create or save the loan.
+ * Properties overriding each other (like months and years)
+ * are applied in the order of the options object keys.
+ */
+export type LoanOptions = Partial<Pick<LoanInterface,
+    'amount' | 'interestRate' | 'months' | 'years' | 'repaymentFrequency'
+    | 'extraPayment' | 'extraPaymentEvents' | 'prepaymentHandling' | 'recastPoints' | 'redrawEvents'
+    | 'amortisationMethod' | 'interestOnlyRepaymentCount' | 'interestOnlyYears' | 'balloonAmount' | 'balloonPercentage'
+    | 'repaymentHolidays' | 'repaymentHolidayHandling'
+    | 'graduatedPaymentRate' | 'graduatedPaymentYears' | 'negativeAmortisationCap'
+    | 'calculateWeeklyAndFortnightlyRepaymentsBasedOnYearlyRepayments' | 'rounding' | 'exactDecimal'
+    | 'strictValidation'
+    | 'establishmentFee' | 'monthlyFee' | 'annualFee' | 'dischargeFee'
+    | 'propertyValue' | 'lmiPremium' | 'capitaliseLmi' | 'pmiRate' | 'pmiCancellationLvr'
+    | 'propertyTax' | 'propertyTaxGrowthRate' | 'homeInsurance' | 'homeInsuranceGrowthRate' | 'hoaDues'
+    | 'offsetBalance' | 'offsetTransactions'
+    | 'startDate' | 'firstPaymentDate' | 'dayCountConvention' | 'interestAccrual'
+    | 'rateChanges' | 'keepRepaymentOnRateChange' | 'interestRateShock'
+    | 'armFixedRateForRepaymentCount' | 'armFixedRateForYears' | 'armInitialVariableRate'
+    | 'armRepaymentCountBetweenAdjustments' | 'armMonthsBetweenAdjustments'
+    | 'armExpectedAdjustmentRate' | 'armMaximumInterestRate' | 'armRateAdjustmentStrategy'>>;
+
 export class Loan implements LoanInterface {
     private _rate: number = 0;
     private _termInMonths: number = 0;
     private _interestOnlyRepayments = 0;
     private _calculated = false;
+    /**
+     * The last valid options in the strict validation mode, restored when an invalid value is set.
+     */
+    private _validOptions: Loan | null = null;
+    private _issues: LoanValidationIssue[] | null = null;
     private _armVariableRate: number = 0;
 
+    /**
+     * @param options Adjustable properties to set.
+     */
+    constructor(options?: LoanOptions) {
+        if (options) {
+            this._assign(options);
+        }
+    }
+
+    /**
+     * Restores the loan saved with toJSON().
+     * @param json Loan JSON object or string.
+     * @throws LoanSchemaError
+     */
+    static fromJSON(json: LoanJSON | string): Loan {
+        return new Loan(loanOptionsFromJSON(json));
+    }
+
     private _amount: number = 0;
 
     get amount(): number {
@@ -218,6 +961,286 @@ export class Loan implements LoanInterface {
         this._invalidate();
     }
 
+    private _extraPaymentEvents: ExtraPaymentEvent[] = [];
+
+    get extraPaymentEvents(): ExtraPaymentEvent[] {
+        return this._extraPaymentEvents.slice();
+    }
+
+    set extraPaymentEvents(events: ExtraPaymentEvent[]) {
+        this._extraPaymentEvents = events.slice();
+        this._invalidate();
+    }
+
+    private _prepaymentHandling: PrepaymentHandling = 'reduce-term';
+
+    get prepaymentHandling(): PrepaymentHandling {
+        return this._prepaymentHandling;
+    }
+
+    set prepaymentHandling(h: PrepaymentHandling) {
+        if (this._prepaymentHandling === h) {
+            return;
+        }
+        this._prepaymentHandling = h;
+        this._invalidate();
+    }
+
+    private _recastPoints: Array<number | Date> = [];
+
+    get recastPoints(): Array<number | Date> {
+        return this._recastPoints.slice();
+    }
+
+    set recastPoints(points: Array<number | Date>) {
+        this._recastPoints = points.slice();
+        this._invalidate();
+    }
+
+    private _redrawEvents: RedrawEvent[] = [];
+
+    get redrawEvents(): RedrawEvent[] {
+        return this._redrawEvents.slice();
+    }
+
+    set redrawEvents(events: RedrawEvent[]) {
+        this._redrawEvents = events.slice();
+        this._invalidate();
+    }
+
+    private _establishmentFee = 0;
+
+    get establishmentFee(): number {
+        return this._establishmentFee;
+    }
+
+    set establishmentFee(fee: number) {
+        if (this._establishmentFee === fee) {
+            return;
+        }
+        this._establishmentFee = fee;
+        this._invalidate();
+    }
+
+    private _monthlyFee = 0;
+
+    get monthlyFee(): number {
+        return this._monthlyFee;
+    }
+
+    set monthlyFee(fee: number) {
+        if (this._monthlyFee === fee) {
+            return;
+        }
+        this._monthlyFee = fee;
+        this._invalidate();
+    }
+
+    private _annualFee = 0;
+
+    get annualFee(): number {
+        return this._annualFee;
+    }
+
+    set annualFee(fee: number) {
+        if (this._annualFee === fee) {
+            return;
+        }
+        this._annualFee = fee;
+        this._invalidate();
+    }
+
+    private _dischargeFee = 0;
+
+    get dischargeFee(): number {
+        return this._dischargeFee;
+    }
+
+    set dischargeFee(fee: number) {
+        if (this._dischargeFee === fee) {
+            return;
+        }
+        this._dischargeFee = fee;
+        this._invalidate();
+    }
+
+    private _propertyValue = 0;
+
+    get propertyValue(): number {
+        return this._propertyValue;
+    }
+
+    set propertyValue(value: number) {
+        if (this._propertyValue === value) {
+            return;
+        }
+        this._propertyValue = value;
+        this._invalidate();
+    }
+
+    private _lmiPremium = 0;
+
+    get lmiPremium(): number {
+        return this._lmiPremium;
+    }
+
+    set lmiPremium(premium: number) {
+        if (this._lmiPremium === premium) {
+            return;
+        }
+        this._lmiPremium = premium;
+        this._invalidate();
+    }
+
+    private _capitaliseLmi = false;
+
+    get capitaliseLmi(): boolean {
+        return this._capitaliseLmi;
+    }
+
+    set capitaliseLmi(value: boolean) {
+        if (this._capitaliseLmi === value) {
+            return;
+        }
+        this._capitaliseLmi = value;
+        this._invalidate();
+    }
+
+    private _pmiRate = 0;
+
+    get pmiRate(): number {
+        return this._pmiRate;
+    }
+
+    set pmiRate(rate: number) {
+        if (this._pmiRate === rate) {
+            return;
+        }
+        this._pmiRate = rate;
+        this._invalidate();
+    }
+
+    private _pmiCancellationLvr = 78;
+
+    get pmiCancellationLvr(): number {
+        return this._pmiCancellationLvr;
+    }
+
+    set pmiCancellationLvr(lvr: number) {
+        if (this._pmiCancellationLvr === lvr) {
+            return;
+        }
+        this._pmiCancellationLvr = lvr;
+        this._invalidate();
+    }
+
+    private _propertyTax = 0;
+
+    get propertyTax(): number {
+        return this._propertyTax;
+    }
+
+    set propertyTax(tax: number) {
+        if (this._propertyTax === tax) {
+            return;
+        }
+        this._propertyTax = tax;
+        this._invalidate();
+    }
+
+    private _propertyTaxGrowthRate = 0;
+
+    get propertyTaxGrowthRate(): number {
+        return this._propertyTaxGrowthRate;
+    }
+
+    set propertyTaxGrowthRate(rate: number) {
+        if (this._propertyTaxGrowthRate === rate) {
+            return;
+        }
+        this._propertyTaxGrowthRate = rate;
+        this._invalidate();
+    }
+
+    private _homeInsurance = 0;
+
+    get homeInsurance(): number {
+        return this._homeInsurance;
+    }
+
+    set homeInsurance(premium: number) {
+        if (this._homeInsurance === premium) {
+            return;
+        }
+        this._homeInsurance = premium;
+        this._invalidate();
+    }
+
+    private _homeInsuranceGrowthRate = 0;
+
+    get homeInsuranceGrowthRate(): number {
+        return this._homeInsuranceGrowthRate;
+    }
+
+    set homeInsuranceGrowthRate(rate: number) {
+        if (this._homeInsuranceGrowthRate === rate) {
+            return;
+        }
+        this._homeInsuranceGrowthRate = rate;
+        this._invalidate();
+    }
+
+    private _hoaDues = 0;
+
+    get hoaDues(): number {
+        return this._hoaDues;
+    }
+
+    set hoaDues(dues: number) {
+        if (this._hoaDues === dues) {
+            return;
+        }
+        this._hoaDues = dues;
+        this._invalidate();
+    }
+
+    get lvr(): number {
+        return this._propertyValue ? this._financedAmount() / this._propertyValue * 100 : 0;
+    }
+
+    private _offsetBalance = 0;
+
+    get offsetBalance(): number {
+        return this._offsetBalance;
+    }
+
+    set offsetBalance(b: number) {
+        if (this._offsetBalance === b) {
+            return;
+        }
+        this._offsetBalance = b;
+        this._invalidate();
+    }
+
+    private _offsetTransactions: OffsetTransaction[] = [];
+
+    get offsetTransactions(): OffsetTransaction[] {
+        return this._offsetTransactions.slice();
+    }
+
+    set offsetTransactions(transactions: OffsetTransaction[]) {
+        this._offsetTransactions = transactions.slice();
+        this._invalidate();
+    }
+
+    get offsetInterestSaved(): number {
+        return this._withoutOffset().totalInterest - this.totalInterest;
+    }
+
+    get offsetRepaymentsSaved(): number {
+        return this._withoutOffset().payments.length - this.payments.length;
+    }
+
     private _interestOnlyYears = 0;
 
     get interestOnlyYears(): number {
@@ -236,6 +1259,123 @@ export class Loan implements LoanInterface {
         this._invalidate();
     }
 
+    private _repaymentHolidays: RepaymentHoliday[] = [];
+
+    get repaymentHolidays(): RepaymentHoliday[] {
+        return this._repaymentHolidays.slice();
+    }
+
+    set repaymentHolidays(holidays: RepaymentHoliday[]) {
+        this._repaymentHolidays = holidays.slice();
+        this._invalidate();
+    }
+
+    private _repaymentHolidayHandling: RepaymentHolidayHandling = 'recast';
+
+    get repaymentHolidayHandling(): RepaymentHolidayHandling {
+        return this._repaymentHolidayHandling;
+    }
+
+    set repaymentHolidayHandling(h: RepaymentHolidayHandling) {
+        if (this._repaymentHolidayHandling === h) {
+            return;
+        }
+        this._repaymentHolidayHandling = h;
+        this._invalidate();
+    }
+
+    private _amortisationMethod: AmortisationMethod = 'annuity';
+
+    get amortisationMethod(): AmortisationMethod {
+        return this._amortisationMethod;
+    }
+
+    set amortisationMethod(method: AmortisationMethod) {
+        if (this._amortisationMethod === method) {
+            return;
+        }
+        this._amortisationMethod = method;
+        this._invalidate();
+    }
+
+    private _balloonAmount = 0;
+
+    get balloonAmount(): number {
+        if (this._balloonPercentage) {
+            return this._round(this._amount * this._balloonPercentage / 100);
+        }
+        return this._balloonAmount;
+    }
+
+    set balloonAmount(amount: number) {
+        if (this._balloonAmount === amount) {
+            return;
+        }
+        this._balloonAmount = amount;
+        this._balloonPercentage = 0;
+        this._invalidate();
+    }
+
+    private _balloonPercentage = 0;
+
+    get balloonPercentage(): number {
+        if (this._balloonPercentage || !this._amount) {
+            return this._balloonPercentage;
+        }
+        return this._balloonAmount / this._amount * 100;
+    }
+
+    set balloonPercentage(percentage: number) {
+        if (this._balloonPercentage === percentage) {
+            return;
+        }
+        this._balloonPercentage = percentage;
+        this._balloonAmount = 0;
+        this._invalidate();
+    }
+
+    private _graduatedPaymentRate = 0;
+
+    get graduatedPaymentRate(): number {
+        return this._graduatedPaymentRate;
+    }
+
+    set graduatedPaymentRate(rate: number) {
+        if (this._graduatedPaymentRate === rate) {
+            return;
+        }
+        this._graduatedPaymentRate = rate;
+        this._invalidate();
+    }
+
+    private _graduatedPaymentYears = 0;
+
+    get graduatedPaymentYears(): number {
+        return this._graduatedPaymentYears;
+    }
+
+    set graduatedPaymentYears(years: number) {
+        if (this._graduatedPaymentYears === years) {
+            return;
+        }
+        this._graduatedPaymentYears = years;
+        this._invalidate();
+    }
+
+    private _negativeAmortisationCap = 0;
+
+    get negativeAmortisationCap(): number {
+        return this._negativeAmortisationCap;
+    }
+
+    set negativeAmortisationCap(cap: number) {
+        if (this._negativeAmortisationCap === cap) {
+            return;
+        }
+        this._negativeAmortisationCap = cap;
+        this._invalidate();
+    }
+
     private _calculateWeeklyAndFortnightlyRepaymentsBasedOnYearlyRepayments = false;
 
     get calculateWeeklyAndFortnightlyRepaymentsBasedOnYearlyRepayments(): boolean {
@@ -254,6 +1394,54 @@ export class Loan implements LoanInterface {
         return this._totalCost;
     }
 
+    private _totalFees = 0;
+
+    get totalFees(): number {
+        this._calculate();
+        return this._totalFees;
+    }
+
+    private _totalInsurance = 0;
+
+    get totalInsurance(): number {
+        this._calculate();
+        return this._totalInsurance;
+    }
+
+    private _totalPropertyTax = 0;
+
+    get totalPropertyTax(): number {
+        this._calculate();
+        return this._totalPropertyTax;
+    }
+
+    private _totalHomeInsurance = 0;
+
+    get totalHomeInsurance(): number {
+        this._calculate();
+        return this._totalHomeInsurance;
+    }
+
+    private _totalHoaDues = 0;
+
+    get totalHoaDues(): number {
+        this._calculate();
+        return this._totalHoaDues;
+    }
+
+    get totalOutlay(): number {
+        return this._round(this.totalCost + this._totalPropertyTax + this._totalHomeInsurance + this._totalHoaDues);
+    }
+
+    get apr(): number {
+        const rate = this.payments.length ? irr(this._cashFlows()) : null;
+        return rate === null ? 0 : rate * this.paymentsCountPerYear * 100;
+    }
+
+    get comparisonRate(): number {
+        return this.calcComparisonRate();
+    }
+
     private _totalInterest = 0;
 
     get totalInterest(): number {
@@ -331,54 +1519,194 @@ export class Loan implements LoanInterface {
         return this._armRepaymentCountBetweenAdjustments / this.paymentsCountPerYear * 12;
     }
 
-    set armMonthsBetweenAdjustments(m: number) {
-        if (this._armMonthsBetweenAdjustments === m) {
+    set armMonthsBetweenAdjustments(m: number) {
+        if (this._armMonthsBetweenAdjustments === m) {
+            return;
+        }
+        this._armMonthsBetweenAdjustments = m;
+        this._armRepaymentCountBetweenAdjustments = 0;
+        this._invalidate();
+    }
+
+    private _armExpectedAdjustmentRate: number = 0;
+
+    get armExpectedAdjustmentRate(): number {
+        return this._armExpectedAdjustmentRate;
+    }
+
+    set armExpectedAdjustmentRate(rate: number) {
+        if (this._armExpectedAdjustmentRate === rate) {
+            return;
+        }
+        this._armExpectedAdjustmentRate = rate;
+        this._invalidate();
+    }
+
+    private _armMaximumInterestRate: number = 0;
+
+    get armMaximumInterestRate(): number {
+        return this._armMaximumInterestRate;
+    }
+
+    set armMaximumInterestRate(rate: number) {
+        if (this._armMaximumInterestRate === rate) {
+            return;
+        }
+        this._armMaximumInterestRate = rate;
+        this._invalidate();
+    }
+
+    private _armRateAdjustmentStrategy: RateAdjustmentStrategy | null = null;
+
+    get armRateAdjustmentStrategy(): RateAdjustmentStrategy | null {
+        return this._armRateAdjustmentStrategy;
+    }
+
+    set armRateAdjustmentStrategy(strategy: RateAdjustmentStrategy | null) {
+        if (this._armRateAdjustmentStrategy === strategy) {
+            return;
+        }
+        this._armRateAdjustmentStrategy = strategy;
+        this._invalidate();
+    }
+
+    private _rateChanges: RateChange[] = [];
+
+    get rateChanges(): RateChange[] {
+        return this._rateChanges.slice();
+    }
+
+    set rateChanges(changes: RateChange[]) {
+        this._rateChanges = changes.slice();
+        this._invalidate();
+    }
+
+    private _keepRepaymentOnRateChange = false;
+
+    get keepRepaymentOnRateChange(): boolean {
+        return this._keepRepaymentOnRateChange;
+    }
+
+    set keepRepaymentOnRateChange(value: boolean) {
+        if (this._keepRepaymentOnRateChange === value) {
+            return;
+        }
+        this._keepRepaymentOnRateChange = value;
+        this._invalidate();
+    }
+
+    private _interestRateShock = 0;
+
+    get interestRateShock(): number {
+        return this._interestRateShock;
+    }
+
+    set interestRateShock(shock: number) {
+        if (this._interestRateShock === shock) {
+            return;
+        }
+        this._interestRateShock = shock;
+        this._invalidate();
+    }
+
+    private _rounding = 8;
+
+    get rounding(): number {
+        return this._rounding;
+    }
+
+    set rounding(r: number) {
+        if (this._rounding === r) {
+            return;
+        }
+        this._rounding = r;
+        this._invalidate();
+    }
+
+    private _exactDecimal = false;
+
+    get exactDecimal(): boolean {
+        return this._exactDecimal;
+    }
+
+    set exactDecimal(value: boolean) {
+        if (this._exactDecimal === value) {
+            return;
+        }
+        this._exactDecimal = value;
+        this._invalidate();
+    }
+
+    private _strictValidation = false;
+
+    get strictValidation(): boolean {
+        return this._strictValidation;
+    }
+
+    set strictValidation(value: boolean) {
+        if (this._strictValidation === value) {
+            return;
+        }
+        this._strictValidation = value;
+        this._invalidate();
+    }
+
+    private _startDate: Date = today();
+
+    get startDate(): Date {
+        return new Date(this._startDate.getTime());
+    }
+
+    set startDate(d: Date) {
+        if (this._startDate.getTime() === d.getTime()) {
             return;
         }
-        this._armMonthsBetweenAdjustments = m;
-        this._armRepaymentCountBetweenAdjustments = 0;
+        this._startDate = new Date(d.getTime());
         this._invalidate();
     }
 
-    private _armExpectedAdjustmentRate: number = 0;
+    private _firstPaymentDate: Date | null = null;
 
-    get armExpectedAdjustmentRate(): number {
-        return this._armExpectedAdjustmentRate;
+    get firstPaymentDate(): Date {
+        if (this._firstPaymentDate) {
+            return new Date(this._firstPaymentDate.getTime());
+        }
+        return this._addPeriods(this._startDate, 1);
     }
 
-    set armExpectedAdjustmentRate(rate: number) {
-        if (this._armExpectedAdjustmentRate === rate) {
+    set firstPaymentDate(d: Date) {
+        if (this._firstPaymentDate && this._firstPaymentDate.getTime() === d.getTime()) {
             return;
         }
-        this._armExpectedAdjustmentRate = rate;
+        this._firstPaymentDate = new Date(d.getTime());
         this._invalidate();
     }
 
-    private _armMaximumInterestRate: number = 0;
+    private _dayCountConvention: DayCountConvention = 'none';
 
-    get armMaximumInterestRate(): number {
-        return this._armMaximumInterestRate;
+    get dayCountConvention(): DayCountConvention {
+        return this._dayCountConvention;
     }
 
-    set armMaximumInterestRate(rate: number) {
-        if (this._armMaximumInterestRate === rate) {
+    set dayCountConvention(c: DayCountConvention) {
+        if (this._dayCountConvention === c) {
             return;
         }
-        this._armMaximumInterestRate = rate;
+        this._dayCountConvention = c;
         this._invalidate();
     }
 
-    private _rounding = 8;
+    private _interestAccrual: InterestAccrual = 'period';
 
-    get rounding(): number {
-        return this._rounding;
+    get interestAccrual(): InterestAccrual {
+        return this._interestAccrual;
     }
 
-    set rounding(r: number) {
-        if (this._rounding === r) {
+    set interestAccrual(accrual: InterestAccrual) {
+        if (this._interestAccrual === accrual) {
             return;
         }
-        this._rounding = r;
+        this._interestAccrual = accrual;
         this._invalidate();
     }
 
@@ -465,36 +1793,87 @@ export class Loan implements LoanInterface {
         return Math.floor(this.paymentsCountPerYear * this._termInMonths / 12);
     }
 
+    private _repaymentAmount: number | null = null;
+
     get repaymentAmount(): number {
-        if (!this._calculateWeeklyAndFortnightlyRepaymentsBasedOnYearlyRepayments) {
+        if (!this._isValid()) {
+            return 0;
+        }
+        if (this._repaymentAmount === null) {
+            this._repaymentAmount = this._calcRepaymentAmount();
+        }
+        return this._repaymentAmount;
+    }
+
+    private _calcRepaymentAmount(): number {
+        if (this._amortisationMethod === 'annuity'
+            && !this._calculateWeeklyAndFortnightlyRepaymentsBasedOnYearlyRepayments) {
             switch (this._repaymentFrequency) {
                 case 'weekly':
                 case 'fortnightly':
                     const monthly = this.clone();
                     monthly.repaymentFrequency = 'monthly';
-                    return 'weekly' === this.repaymentFrequency
+                    return this._round('weekly' === this.repaymentFrequency
                         ? monthly.repaymentAmount / 4
-                        : monthly.repaymentAmount / 2;
+                        : monthly.repaymentAmount / 2);
             }
         }
-        const ppy = this.paymentsCountPerYear;
-        const paymentsTotal = this.paymentsCountTotal;
-        const interestOnlyRepayments = this._interestOnlyRepayments;
-        const interest = this._rate / ppy / 100;
-        const x = Math.pow(1 + interest, paymentsTotal - interestOnlyRepayments);
-        const amount = (this._amount * x * interest) / (x - 1);
-        return this._round(amount);
+        const balance = this._financedAmount();
+        const rate = this._shockRate(this._rate);
+        const repayment = this._calcRepayment(balance, rate, this.paymentsCountTotal - this.interestOnlyRepaymentCount);
+        if (this._amortisationMethod === 'linear') {
+            // the first repayment, following ones are lower
+            return this._round(repayment + balance * rate / this.paymentsCountPerYear / 100);
+        }
+        return repayment;
     }
 
     clone(): LoanInterface {
         const copy = new Loan();
+        this._copyTo(copy);
+        copy._validOptions = this._validOptions;
+        return copy;
+    }
+
+    /**
+     * Copies the adjustable properties to the other loan.
+     */
+    private _copyTo(copy: Loan) {
         copy._amount = this._amount;
         copy._rate = this._rate;
         copy._termInMonths = this._termInMonths;
         copy._repaymentFrequency = this._repaymentFrequency;
         copy._extraPayment = this._extraPayment;
+        copy._extraPaymentEvents = this._extraPaymentEvents.slice();
+        copy._prepaymentHandling = this._prepaymentHandling;
+        copy._recastPoints = this._recastPoints.slice();
+        copy._redrawEvents = this._redrawEvents.slice();
+        copy._establishmentFee = this._establishmentFee;
+        copy._monthlyFee = this._monthlyFee;
+        copy._annualFee = this._annualFee;
+        copy._dischargeFee = this._dischargeFee;
+        copy._propertyValue = this._propertyValue;
+        copy._lmiPremium = this._lmiPremium;
+        copy._capitaliseLmi = this._capitaliseLmi;
+        copy._pmiRate = this._pmiRate;
+        copy._pmiCancellationLvr = this._pmiCancellationLvr;
+        copy._propertyTax = this._propertyTax;
+        copy._propertyTaxGrowthRate = this._propertyTaxGrowthRate;
+        copy._homeInsurance = this._homeInsurance;
+        copy._homeInsuranceGrowthRate = this._homeInsuranceGrowthRate;
+        copy._hoaDues = this._hoaDues;
+        copy._offsetBalance = this._offsetBalance;
+        copy._offsetTransactions = this._offsetTransactions.slice();
         copy._interestOnlyRepayments = this._interestOnlyRepayments;
         copy._interestOnlyYears = this._interestOnlyYears;
+        copy._repaymentHolidays = this._repaymentHolidays.slice();
+        copy._repaymentHolidayHandling = this._repaymentHolidayHandling;
+        copy._amortisationMethod = this._amortisationMethod;
+        copy._balloonAmount = this._balloonAmount;
+        copy._balloonPercentage = this._balloonPercentage;
+        copy._graduatedPaymentRate = this._graduatedPaymentRate;
+        copy._graduatedPaymentYears = this._graduatedPaymentYears;
+        copy._negativeAmortisationCap = this._negativeAmortisationCap;
         copy._calculateWeeklyAndFortnightlyRepaymentsBasedOnYearlyRepayments = this._calculateWeeklyAndFortnightlyRepaymentsBasedOnYearlyRepayments;
         copy._armFixedRateForRepaymentCount = this._armFixedRateForRepaymentCount;
         copy._armFixedRateForYears = this._armFixedRateForYears;
@@ -503,16 +1882,373 @@ export class Loan implements LoanInterface {
         copy._armMonthsBetweenAdjustments = this._armMonthsBetweenAdjustments;
         copy._armExpectedAdjustmentRate = this._armExpectedAdjustmentRate;
         copy._armMaximumInterestRate = this._armMaximumInterestRate;
+        copy._armRateAdjustmentStrategy = this._armRateAdjustmentStrategy;
+        copy._rateChanges = this._rateChanges.slice();
+        copy._keepRepaymentOnRateChange = this._keepRepaymentOnRateChange;
+        copy._interestRateShock = this._interestRateShock;
         copy._rounding = this._rounding;
-        return copy;
+        copy._exactDecimal = this._exactDecimal;
+        copy._strictValidation = this._strictValidation;
+        copy._startDate = this._startDate;
+        copy._firstPaymentDate = this._firstPaymentDate;
+        copy._dayCountConvention = this._dayCountConvention;
+        copy._interestAccrual = this._interestAccrual;
+    }
+
+    with(options: LoanOptions): LoanResult {
+        const copy = this.clone() as Loan;
+        copy._assign(options);
+        return toLoanResult(copy);
+    }
+
+    paymentsIterator(): IterableIterator<LoanPayment> {
+        const copy = this.clone() as Loan;
+        return new PaymentsIterator(copy._isValid() ? copy._paymentCalculator() : () => null);
+    }
+
+    summary(): LoanSummary {
+        if (!this._calculated) {
+            return this._summarise();
+        }
+        const last = this._payments[this._payments.length - 1];
+        return {
+            repaymentAmount: this.repaymentAmount,
+            paymentsCount: this._payments.length,
+            payoffDate: last ? last.date : null,
+            totalCost: this._totalCost,
+            totalInterest: this._totalInterest,
+            totalFees: this._totalFees,
+            totalInsurance: this._totalInsurance,
+            totalPropertyTax: this._totalPropertyTax,
+            totalHomeInsurance: this._totalHomeInsurance,
+            totalHoaDues: this._totalHoaDues
+        };
+    }
+
+    yearlySummaries(): LoanPeriodSummary[] {
+        return this._summariseBy(payment => payment.date.getFullYear());
+    }
+
+    financialYearSummaries(startMonth = 7): LoanPeriodSummary[] {
+        if (!(startMonth >= 1 && startMonth <= 12) || startMonth % 1) {
+            throw new RangeError(`Invalid financial year start month ${startMonth}, expected 1-12`);
+        }
+        return this._summariseBy(payment => startMonth > 1 && payment.date.getMonth() + 1 >= startMonth
+            ? payment.date.getFullYear() + 1 : payment.date.getFullYear());
+    }
+
+    periodSummaries(count: number): LoanPeriodSummary[] {
+        if (!(count >= 1) || count % 1) {
+            throw new RangeError(`Invalid number of repayments ${count}, expected a positive integer`);
+        }
+        return this._summariseBy((payment, p) => Math.floor(p / count));
+    }
+
+    calcComparisonRate(amount = 150000, years = 25): number {
+        const copy = this.clone();
+        copy.amount = amount;
+        copy.years = years;
+        copy.repaymentFrequency = 'monthly';
+        copy.extraPayment = 0;
+        copy.extraPaymentEvents = [];
+        copy.redrawEvents = [];
+        copy.offsetBalance = 0;
+        copy.offsetTransactions = [];
+        copy.lmiPremium = 0;
+        copy.pmiRate = 0;
+        return copy.apr;
+    }
+
+    toOptions(): LoanOptions {
+        const options: LoanOptions = {
+            amount: this._amount,
+            interestRate: this._rate,
+            months: this._termInMonths,
+            repaymentFrequency: this._repaymentFrequency,
+            extraPayment: this._extraPayment,
+            extraPaymentEvents: this.extraPaymentEvents,
+            prepaymentHandling: this._prepaymentHandling,
+            recastPoints: this.recastPoints,
+            redrawEvents: this.redrawEvents,
+            amortisationMethod: this._amortisationMethod,
+            repaymentHolidays: this.repaymentHolidays,
+            repaymentHolidayHandling: this._repaymentHolidayHandling,
+            graduatedPaymentRate: this._graduatedPaymentRate,
+            graduatedPaymentYears: this._graduatedPaymentYears,
+            negativeAmortisationCap: this._negativeAmortisationCap,
+            calculateWeeklyAndFortnightlyRepaymentsBasedOnYearlyRepayments:
+                this._calculateWeeklyAndFortnightlyRepaymentsBasedOnYearlyRepayments,
+            rounding: this._rounding,
+            exactDecimal: this._exactDecimal,
+            strictValidation: this._strictValidation,
+            establishmentFee: this._establishmentFee,
+            monthlyFee: this._monthlyFee,
+            annualFee: this._annualFee,
+            dischargeFee: this._dischargeFee,
+            propertyValue: this._propertyValue,
+            lmiPremium: this._lmiPremium,
+            capitaliseLmi: this._capitaliseLmi,
+            pmiRate: this._pmiRate,
+            pmiCancellationLvr: this._pmiCancellationLvr,
+            propertyTax: this._propertyTax,
+            propertyTaxGrowthRate: this._propertyTaxGrowthRate,
+            homeInsurance: this._homeInsurance,
+            homeInsuranceGrowthRate: this._homeInsuranceGrowthRate,
+            hoaDues: this._hoaDues,
+            offsetBalance: this._offsetBalance,
+            offsetTransactions: this.offsetTransactions,
+            startDate: this.startDate,
+            dayCountConvention: this._dayCountConvention,
+            interestAccrual: this._interestAccrual,
+            rateChanges: this.rateChanges,
+            keepRepaymentOnRateChange: this._keepRepaymentOnRateChange,
+            interestRateShock: this._interestRateShock,
+            armInitialVariableRate: this._armVariableRate,
+            armExpectedAdjustmentRate: this._armExpectedAdjustmentRate,
+            armMaximumInterestRate: this._armMaximumInterestRate,
+            armRateAdjustmentStrategy: this._armRateAdjustmentStrategy
+        };
+        if (this._firstPaymentDate) {
+            options.firstPaymentDate = this.firstPaymentDate;
+        }
+        // properties overriding each other
+        if (this._interestOnlyYears) {
+            options.interestOnlyYears = this._interestOnlyYears;
+        } else {
+            options.interestOnlyRepaymentCount = this._interestOnlyRepayments;
+        }
+        if (this._balloonPercentage) {
+            options.balloonPercentage = this._balloonPercentage;
+        } else {
+            options.balloonAmount = this._balloonAmount;
+        }
+        if (this._armFixedRateForYears) {
+            options.armFixedRateForYears = this._armFixedRateForYears;
+        } else {
+            options.armFixedRateForRepaymentCount = this._armFixedRateForRepaymentCount;
+        }
+        if (this._armRepaymentCountBetweenAdjustments) {
+            options.armRepaymentCountBetweenAdjustments = this._armRepaymentCountBetweenAdjustments;
+        } else {
+            options.armMonthsBetweenAdjustments = this._armMonthsBetweenAdjustments;
+        }
+        return options;
+    }
+
+    toJSON(): LoanJSON {
+        return loanOptionsToJSON(this.toOptions());
+    }
+
+    validate(): LoanValidationIssue[] {
+        return validateLoan(this);
+    }
+
+    private _assign(options: LoanOptions) {
+        for (const key of Object.keys(options) as Array<keyof LoanOptions>) {
+            if (options[key] !== undefined) {
+                (this as LoanOptions)[key] = options[key];
+            }
+        }
     }
 
     private _invalidate() {
         this._calculated = false;
+        this._repaymentAmount = null;
+        this._issues = null;
+        if (!this._strictValidation) {
+            this._validOptions = null;
+            return;
+        }
+        const issues = validateLoan(this, true);
+        if (issues.length) {
+            // roll back the change, or the strict validation mode just turned on
+            if (this._validOptions) {
+                this._validOptions._copyTo(this);
+            } else {
+                this._strictValidation = false;
+            }
+            throw new LoanValidationError(issues);
+        }
+        this._validOptions = new Loan();
+        this._copyTo(this._validOptions);
+    }
+
+    /**
+     * @return Whether the loan is valid to calculate.
+     * @throws LoanValidationError in the strict validation mode.
+     */
+    private _isValid(): boolean {
+        if (!this._issues) {
+            this._issues = this.validate();
+        }
+        if (this._issues.length && this._strictValidation) {
+            throw new LoanValidationError(this._issues);
+        }
+        return !this._issues.length;
+    }
+
+    /**
+     * @return Repayment amount to pay off the balance with the given number of repayments,
+     * or the principal part of the repayments for the linear amortisation,
+     * or the interest only repayment if there are no repayments left.
+     * @param graduated Whether to calculate the first year repayment of the graduated repayments.
+     */
+    private _calcRepayment(balance: number, rate: number, count: number, graduated = this._isGraduated()): number {
+        const ppy = this.paymentsCountPerYear;
+        if (count <= 0) {
+            // nothing left to amortise, e.g. interest only for the whole term
+            return this._amortisationMethod === 'linear' ? 0 : this._round(balance * rate / ppy / 100);
+        }
+        switch (this._amortisationMethod) {
+            case 'linear':
+                return this._round((balance - this.balloonAmount) / count);
+            case 'flat':
+                return this._round((balance - this.balloonAmount) / count + this._financedAmount() * rate / ppy / 100);
+        }
+        if (this._amortisationMethod === 'annuity'
+            && !this._calculateWeeklyAndFortnightlyRepaymentsBasedOnYearlyRepayments) {
+            switch (this._repaymentFrequency) {
+                case 'weekly':
+                case 'fortnightly':
+                    const months = Math.max(Math.round(count * 12 / this.paymentsCountPerYear), 1);
+                    const monthly = this._round(this._calcAnnuity(balance, rate, months, 12, graduated));
+                    return this._round('weekly' === this._repaymentFrequency ? monthly / 4 : monthly / 2);
+            }
+        }
+        return this._round(this._calcAnnuity(balance, rate, count, ppy, graduated));
+    }
+
+    /**
+     * @param rate Yearly interest rate, 0-100.
+     * @param count Number of the remaining repayments.
+     * @param ppy Repayments count per year.
+     * @param graduated Whether to calculate the first year repayment of the graduated repayments.
+     * @return Level repayment, or the first year repayment of the graduated repayments.
+     */
+    private _calcAnnuity(balance: number, rate: number, count: number, ppy: number, graduated: boolean): number {
+        if (!graduated) {
+            return annuity(balance, rate / ppy / 100, count, this.balloonAmount);
+        }
+        const amortisingCount = (this.paymentsCountTotal - this.interestOnlyRepaymentCount) * ppy / this.paymentsCountPerYear;
+        return graduatedAnnuity(balance, rate / ppy / 100, count, this.balloonAmount, ppy,
+            this._graduatedPaymentRate / 100, this._graduatedPaymentYears, Math.max(Math.round(amortisingCount) - count, 0));
+    }
+
+    /**
+     * @return Whether the repayments are graduated.
+     */
+    private _isGraduated(): boolean {
+        return this._amortisationMethod === 'annuity' && this._graduatedPaymentRate > 0 && this._graduatedPaymentYears > 0;
+    }
+
+    /**
+     * @return ARM rate adjustment strategy, or null if the rate is fixed for the loan term.
+     */
+    private _armRateAdjustment(): RateAdjustmentStrategy | null {
+        if (this._armRateAdjustmentStrategy) {
+            return this._armRateAdjustmentStrategy;
+        }
+        if (this.armInitialVariableRate && this.armExpectedAdjustmentRate && this.armMaximumInterestRate) {
+            return new StepRateAdjustment(
+                this.armInitialVariableRate, this.armExpectedAdjustmentRate, this.armMaximumInterestRate);
+        }
+        return null;
+    }
+
+    /**
+     * @return Interest rate with the interest rate shock applied, 0-100.
+     */
+    private _shockRate(rate: number): number {
+        return this._interestRateShock ? Math.max(rate + this._interestRateShock, 0) : rate;
+    }
+
+    private _withoutOffset(): LoanInterface {
+        const copy = this.clone();
+        copy.offsetBalance = 0;
+        copy.offsetTransactions = [];
+        return copy;
+    }
+
+    /**
+     * @param rate Yearly interest rate, 0-100.
+     * @param from Previous payment date (or loan start date).
+     * @param to Payment date.
+     * @return Interest rate for the repayment period, 0-1.
+     */
+    private _calcInterestRateForPeriod(rate: number, from: Date, to: Date): number {
+        const convention = this._accrualDayCountConvention();
+        if (convention === 'none') {
+            return rate / this.paymentsCountPerYear / 100;
+        }
+        return rate * yearFraction(from, to, convention) / 100;
+    }
+
+    /**
+     * @return Day count convention, daily accrual uses the actual days by default.
+     */
+    private _accrualDayCountConvention(): DayCountConvention {
+        return this._interestAccrual === 'daily' && this._dayCountConvention === 'none'
+            ? 'actual/365' : this._dayCountConvention;
+    }
+
+    /**
+     * Accrues interest daily over the repayment period, applying one-off extra payments,
+     * redraws and offset transactions due with the repayment on their dates.
+     * @param rate Yearly interest rate, 0-100.
+     * @param p Repayment number.
+     * @param from Previous payment date (or loan start date).
+     * @param to Payment date.
+     * @param balance Balance at the start of the period.
+     * @param offset Offset account balance at the start of the period.
+     * @param availableRedraw Amount available for redraw at the start of the period.
+     * @return Interest accrued over the period.
+     */
+    private _accrueDailyInterest(rate: number, p: number, from: Date, to: Date,
+                                 balance: number, offset: number, availableRedraw: number): number {
+        const changes: Array<{ date: Date; extra: number; redraw: number; offset: number }> = [];
+        const addChanges = (events: Array<RepaymentEvent & { amount: number }>, kind: 'extra' | 'redraw' | 'offset') => {
+            for (const event of events) {
+                const start = event.start;
+                if (start instanceof Date && !event.recurring && event.end === undefined
+                    && isDue(p, from, to, start)) {
+                    const change = {date: start < from ? from : start, extra: 0, redraw: 0, offset: 0};
+                    change[kind] = event.amount;
+                    changes.push(change);
+                }
+            }
+        };
+        addChanges(this._extraPaymentEvents, 'extra');
+        addChanges(this._redrawEvents, 'redraw');
+        addChanges(this._offsetTransactions, 'offset');
+        changes.sort((a, b) => a.date.getTime() - b.date.getTime());
+
+        const convention = this._accrualDayCountConvention();
+        let interest = 0;
+        let date = from;
+        for (const change of changes) {
+            interest += rate * yearFraction(date, change.date, convention) / 100 * Math.max(balance - offset, 0);
+            date = change.date;
+            balance -= change.extra;
+            availableRedraw += change.extra;
+            const redraw = Math.min(change.redraw, Math.max(availableRedraw, 0));
+            balance += redraw;
+            availableRedraw -= redraw;
+            offset = Math.max(offset + change.offset, 0);
+        }
+        return interest + rate * yearFraction(date, to, convention) / 100 * Math.max(balance - offset, 0);
     }
 
-    private _calcInterestRateForPeriod(): number {
-        return this.interestRate / this.paymentsCountPerYear / 100;
+    /**
+     * @return Date which is N repayment periods after the given one.
+     */
+    private _addPeriods(date: Date, n: number): Date {
+        switch (this._repaymentFrequency) {
+            case 'weekly':
+                return addDays(date, 7 * n);
+            case 'fortnightly':
+                return addDays(date, 14 * n);
+        }
+        return addMonths(date, n * 12 / this.paymentsCountPerYear);
     }
 
     private _calculate() {
@@ -520,73 +2256,668 @@ export class Loan implements LoanInterface {
             return;
         }
 
-        if (!this._amount || !this._termInMonths || !this._rate) {
-            return;
+        this._payments = [];
+        const summary = this._summarise(payment => this._payments.push(payment));
+        this._totalCost = summary.totalCost;
+        this._totalInterest = summary.totalInterest;
+        this._totalFees = summary.totalFees;
+        this._totalInsurance = summary.totalInsurance;
+        this._totalPropertyTax = summary.totalPropertyTax;
+        this._totalHomeInsurance = summary.totalHomeInsurance;
+        this._totalHoaDues = summary.totalHoaDues;
+        this._calculated = true;
+    }
+
+    /**
+     * Calculates the totals without keeping the payments, unless collected by the callback.
+     * @param collect Called with each payment.
+     */
+    private _summarise(collect?: (payment: LoanPayment) => void): LoanSummary {
+        const summary: LoanSummary = {
+            repaymentAmount: 0,
+            paymentsCount: 0,
+            payoffDate: null,
+            totalCost: 0,
+            totalInterest: 0,
+            totalFees: 0,
+            totalInsurance: 0,
+            totalPropertyTax: 0,
+            totalHomeInsurance: 0,
+            totalHoaDues: 0
+        };
+        if (!this._isValid()) {
+            return summary;
         }
 
-        this._payments = [];
-        this._totalInterest = 0;
-        this._totalCost = 0;
+        const upfrontLmi = this._capitaliseLmi ? 0 : this._lmiPremium;
+        summary.repaymentAmount = this.repaymentAmount;
+        summary.totalCost = this._establishmentFee + upfrontLmi;
+        summary.totalFees = this._establishmentFee;
+        summary.totalInsurance = this._lmiPremium;
+        const next = this._paymentCalculator(!!collect);
+        for (let payment = next(); payment; payment = next()) {
+            summary.paymentsCount++;
+            summary.payoffDate = payment.date;
+            summary.totalCost = this._round(summary.totalCost + payment.amount + payment.fees);
+            summary.totalInterest = this._round(summary.totalInterest + payment.interest);
+            // zero costs are not added, e.g. for the loans without fees or insurance
+            if (payment.fees) {
+                summary.totalFees = this._round(summary.totalFees + payment.fees);
+            }
+            if (payment.insurance) {
+                summary.totalCost = this._round(summary.totalCost + payment.insurance);
+                summary.totalInsurance = this._round(summary.totalInsurance + payment.insurance);
+            }
+            if (payment.propertyTax) {
+                summary.totalPropertyTax = this._round(summary.totalPropertyTax + payment.propertyTax);
+            }
+            if (payment.homeInsurance) {
+                summary.totalHomeInsurance = this._round(summary.totalHomeInsurance + payment.homeInsurance);
+            }
+            if (payment.hoaDues) {
+                summary.totalHoaDues = this._round(summary.totalHoaDues + payment.hoaDues);
+            }
+            if (collect) {
+                collect(payment);
+            }
+        }
+        return summary;
+    }
+
+    /**
+     * @param period Period of the payment, the payments are grouped by.
+     */
+    private _summariseBy(period: (payment: LoanPayment, p: number) => number): LoanPeriodSummary[] {
+        const summaries: LoanPeriodSummary[] = [];
+        if (!this.payments.length) {
+            return summaries;
+        }
+        let principal = 0;
+        let interest = 0;
+        let fees = this._establishmentFee;
+        let insurance = this._lmiPremium;
+        let cost = this._establishmentFee + (this._capitaliseLmi ? 0 : this._lmiPremium);
+        let summary: LoanPeriodSummary | null = null;
+        this._payments.forEach((payment, p) => {
+            const key = period(payment, p);
+            if (!summary || summary.period !== key) {
+                summary = {
+                    period: key,
+                    startDate: payment.date,
+                    endDate: payment.date,
+                    paymentsCount: 0,
+                    openingBalance: this._round(payment.balance + payment.principal - payment.redraw),
+                    closingBalance: 0,
+                    amount: 0,
+                    principal: 0,
+                    interest: 0,
+                    extra: 0,
+                    fees: 0,
+                    insurance: 0,
+                    propertyTax: 0,
+                    homeInsurance: 0,
+                    hoaDues: 0,
+                    redraw: 0,
+                    cumulativePrincipal: 0,
+                    cumulativeInterest: 0,
+                    cumulativeFees: 0,
+                    cumulativeInsurance: 0,
+                    cumulativeCost: 0
+                };
+                summaries.push(summary);
+            }
+            summary.endDate = payment.date;
+            summary.paymentsCount++;
+            summary.closingBalance = payment.balance;
+            summary.amount = this._round(summary.amount + payment.amount);
+            summary.principal = this._round(summary.principal + payment.principal);
+            summary.interest = this._round(summary.interest + payment.interest);
+            summary.extra = this._round(summary.extra + payment.extra);
+            summary.fees = this._round(summary.fees + payment.fees);
+            summary.insurance = this._round(summary.insurance + payment.insurance);
+            summary.propertyTax = this._round(summary.propertyTax + payment.propertyTax);
+            summary.homeInsurance = this._round(summary.homeInsurance + payment.homeInsurance);
+            summary.hoaDues = this._round(summary.hoaDues + payment.hoaDues);
+            summary.redraw = this._round(summary.redraw + payment.redraw);
+            // same order as the loan totals
+            principal = this._round(principal + payment.principal);
+            interest = this._round(interest + payment.interest);
+            fees = this._round(fees + payment.fees);
+            insurance = this._round(insurance + payment.insurance);
+            cost = this._round(this._round(cost + payment.amount + payment.fees) + payment.insurance);
+            summary.cumulativePrincipal = principal;
+            summary.cumulativeInterest = interest;
+            summary.cumulativeFees = fees;
+            summary.cumulativeInsurance = insurance;
+            summary.cumulativeCost = cost;
+        });
+        return summaries;
+    }
 
-        let rate = this._calcInterestRateForPeriod();
-        const repayment = this.repaymentAmount;
-        const variableRate = this.armInitialVariableRate / 12 / 100;
+    /**
+     * Calculates the payments one by one, the loan must be valid.
+     * @param dated Whether to calculate the dates of all payments, otherwise only the last payment date
+     * is calculated, unless the calculation depends on the dates (date events, day count conventions).
+     * @return Function returning the next payment, or null after the last one.
+     */
+    private _paymentCalculator(dated = true): () => LoanPayment | null {
+        let baseRate = this.interestRate; // without the interest rate shock
+        let rate = this._shockRate(baseRate);
+        const method = this._amortisationMethod;
+        const ppy = this.paymentsCountPerYear;
         const interestOnlyRepayments = this.interestOnlyRepaymentCount;
+        let repayment = method === 'linear'
+            ? this._calcRepayment(this._financedAmount(), rate, this.paymentsCountTotal - interestOnlyRepayments)
+            : this.repaymentAmount;
         const adjustAfterRepayments = this.armFixedRateForRepaymentCount;
         const adjustmentPeriod = this.armRepaymentCountBetweenAdjustments;
-        const adjustmentPercentage = this.armExpectedAdjustmentRate / 12 / 100;
-        const maxAdjustedRate = this.armMaximumInterestRate / 12 / 100;
-        const doAdjustments = variableRate && adjustmentPercentage && maxAdjustedRate;
-        let balance = this.amount;
-        for (let p = 0, n = this.paymentsCountTotal; balance > 0 && p < n; ++p) {
-            if (doAdjustments) {
-                if (p === adjustAfterRepayments) {
-                    // first time change rate to variable one
-                    rate = variableRate;
+        const rateAdjustment = this._armRateAdjustment();
+        const firstPaymentDate = this.firstPaymentDate;
+        // repayments are due on the start date day of month unless the first repayment date is set,
+        // so the end of February doesn't become the end of month
+        const scheduleStart = this._firstPaymentDate ? firstPaymentDate : this._startDate;
+        const scheduleOffset = this._firstPaymentDate ? 0 : 1;
+        let balance = this._financedAmount();
+        let contractualBalance = balance;
+        const flatInterestBase = balance;
+        // Rule of 78 finance charge allocated between the repayments since the last (re)amortisation
+        let charge = 0;
+        let chargeStart = -1;
+        const pmi = this._round(this._pmiRate / 100 * balance / ppy);
+        const pmiCancellationBalance = this._pmiCancellationLvr / 100 * this._propertyValue;
+        let pmiCancelled = !pmi;
+        let offset = this._offsetBalance;
+        let redrawable = 0; // available redraw after the previous repayment
+        let prepaid = false; // since the previous recast
+        let date = this._startDate;
+        const n = this.paymentsCountTotal;
+        const extraPayment = this._extraPayment;
+        const periodicFees = this._monthlyFee * 12 / ppy;
+        const fees = this._round(periodicFees);
+        const feesWithAnnualFee = this._round(periodicFees + this._annualFee);
+        const hoaDues = this._round(this._hoaDues * 12 / ppy);
+        // the events are only looked up if there are any
+        const hasRateChanges = this._rateChanges.length > 0;
+        const hasHolidays = this._repaymentHolidays.length > 0;
+        const hasExtraPaymentEvents = this._extraPaymentEvents.length > 0;
+        const hasRedrawEvents = this._redrawEvents.length > 0;
+        const hasOffsetTransactions = this._offsetTransactions.length > 0;
+        const hasRecastPoints = this._recastPoints.length > 0;
+        const hasEscrow = this._propertyTax > 0 || this._homeInsurance > 0;
+        const daily = this._interestAccrual === 'daily';
+        const periodic = this._accrualDayCountConvention() === 'none';
+        // custom ARM strategies get the adjustment date
+        const withDates = dated || !periodic || !!this._armRateAdjustmentStrategy || this._hasDateEvents();
+        const balloon = this.balloonAmount;
+        const extendTerm = (this._keepRepaymentOnRateChange && this._rateChanges.length > 0)
+            || (this._repaymentHolidayHandling === 'extend-term' && this._repaymentHolidays.length > 0);
+        const maxPaymentsCount = extendTerm ? ppy * MAX_TERM_YEARS : n;
+        let wasOnHoliday = false;
+        let graduated = this._isGraduated();
+        const negativeAmortisationCapBalance = this._negativeAmortisationCap / 100 * balance;
+
+        const calcPayment = (p: number): LoanPayment => {
+            const paymentDate = withDates ? this._addPeriods(scheduleStart, p + scheduleOffset) : firstPaymentDate;
+            if (rateAdjustment && p >= adjustAfterRepayments) {
+                // first time change rate to variable one, then adjust each N repayments
+                const adjustment = p === adjustAfterRepayments ? 0
+                    : adjustmentPeriod > 0 && (p - adjustAfterRepayments) % adjustmentPeriod === 0
+                        ? (p - adjustAfterRepayments) / adjustmentPeriod : -1;
+                if (adjustment >= 0) {
+                    baseRate = rateAdjustment.adjust({
+                        adjustment: adjustment,
+                        repayment: p,
+                        date: paymentDate,
+                        currentRate: baseRate,
+                        initialRate: this.interestRate
+                    });
+                    const adjustedRate = this._shockRate(baseRate);
+                    if (adjustedRate !== rate && p < n) {
+                        // re-amortised over the remaining term with the new rate
+                        repayment = this._calcRepayment(balance, adjustedRate, n - Math.max(p, interestOnlyRepayments),
+                            graduated);
+                        chargeStart = -1;
+                    }
+                    rate = adjustedRate;
                 }
-                if ((p > adjustAfterRepayments) && (p % adjustmentPeriod === 0)) {
-                    // then adjust each N repayments
-                    rate = Math.min(rate + adjustmentPercentage, maxAdjustedRate);
+            }
+            const rateChange = hasRateChanges ? findDueRateChange(this._rateChanges, p, date, paymentDate) : undefined;
+            if (rateChange) {
+                baseRate = rateChange.rate;
+                rate = this._shockRate(baseRate);
+                // the kept repayment should cover interest, otherwise the balance grows
+                const belowInterest = method === 'annuity'
+                    && repayment <= this._round(Math.max(balance - offset, 0) * rate / ppy / 100);
+                if (!this._keepRepaymentOnRateChange || belowInterest) {
+                    repayment = this._calcRepayment(balance, rate,
+                        Math.max(n - Math.max(p, interestOnlyRepayments), 1), graduated);
+                    chargeStart = -1;
                 }
             }
-            const extra = p >= interestOnlyRepayments
-                ? this.extraPayment : 0;
-            const interest = this._round(rate * balance);
-            const amount = p >= interestOnlyRepayments
-                ? this._round(Math.min(repayment + extra, balance + interest))
-                : interest;
-            const principal = p >= interestOnlyRepayments
-                ? Math.min(this._round(repayment - interest + extra), balance) : 0;
+            if (prepaid && this._prepaymentHandling === 'recast' && p < n && (!hasRecastPoints
+                || this._recastPoints.some(point => isDue(p, date, paymentDate, point)))) {
+                repayment = this._calcRepayment(balance, rate, n - Math.max(p, interestOnlyRepayments), graduated);
+                chargeStart = -1;
+                // paid ahead amount is used for the lower repayment
+                contractualBalance = balance;
+                prepaid = false;
+            }
+            const holiday = hasHolidays ? findDueHoliday(this._repaymentHolidays, p, date, paymentDate) : undefined;
+            if (!holiday && wasOnHoliday && this._repaymentHolidayHandling === 'recast' && p < n) {
+                repayment = this._calcRepayment(balance, rate, n - Math.max(p, interestOnlyRepayments), graduated);
+                chargeStart = -1;
+                contractualBalance = balance;
+            }
+            wasOnHoliday = !!holiday;
+            if (graduated && negativeAmortisationCapBalance > 0 && balance >= negativeAmortisationCapBalance && p < n) {
+                // recalculate level repayments over the remaining term
+                graduated = false;
+                repayment = this._calcRepayment(balance, rate, n - Math.max(p, interestOnlyRepayments), graduated);
+                contractualBalance = balance;
+            }
+            pmiCancelled = pmiCancelled || (pmiCancellationBalance > 0 && balance <= pmiCancellationBalance);
+            const paused = !!holiday && holiday.type === 'pause';
+            const interestOnly = holiday ? holiday.type === 'interest-only' : p < interestOnlyRepayments;
+            const extra = (interestOnly || paused ? 0 : extraPayment)
+                + (hasExtraPaymentEvents ? sumDueEvents(this._extraPaymentEvents, p, date, paymentDate) : 0);
+            const periodRate = periodic ? rate / ppy / 100 : this._calcInterestRateForPeriod(rate, date, paymentDate);
+            const ruleOf78 = method === 'rule-of-78' && !interestOnly && !paused;
+            if (ruleOf78 && chargeStart < 0) {
+                chargeStart = Math.max(p, interestOnlyRepayments);
+                charge = repayment * (n - chargeStart) + balloon - balance;
+            }
+            const interest = this._round(method === 'flat'
+                ? flatInterestBase * rate / ppy / 100
+                : ruleOf78 ? allocateByRuleOf78(charge, n - chargeStart, p - chargeStart)
+                    : daily
+                        ? this._accrueDailyInterest(rate, p, date, paymentDate, balance, offset, redrawable)
+                        : periodRate * Math.max(balance - offset, 0));
+            // graduated repayments increase each year
+            const graduation = graduated ? Math.pow(1 + this._graduatedPaymentRate / 100, Math.min(
+                Math.floor((p - interestOnlyRepayments) / ppy), this._graduatedPaymentYears)) : 1;
+            const regular = paused ? 0 : interestOnly ? interest
+                : method === 'linear' ? this._round(repayment + interest) : this._round(repayment * graduation);
+            // balloon is paid with the last repayment of the term, paying off the balance
+            const balloonDue = balloon > 0 && p === n - 1;
+            // so is the balance left after the last repayment, e.g. of interest only loans
+            // or because of the actual day count
+            const lastDue = !extendTerm && p === n - 1 || p === maxPaymentsCount - 1;
+            const scheduled = balloonDue || lastDue ? this._round(balance + interest) : regular;
+            const amount = this._round(Math.min(scheduled + extra, balance + interest));
+            const principal = Math.min(this._round(scheduled - interest + extra), balance);
             balance = this._round(balance - principal);
-            this._addPayment(amount, principal, interest, balance);
-        }
+            if (paused) {
+                // interest capitalised into the balance with the scheduled repayments as well
+                const contractualInterest = method === 'annuity' || method === 'linear'
+                    ? this._round(periodRate * contractualBalance) : interest;
+                contractualBalance = this._round(contractualBalance + contractualInterest);
+            } else if (!interestOnly) {
+                // balance with the scheduled repayments only
+                const contractualInterest = method === 'annuity' ? this._round(periodRate * contractualBalance) : interest;
+                // the balloon is scheduled as well
+                contractualBalance = Math.max(this._round(contractualBalance - regular - (balloonDue ? balloon : 0)
+                    + contractualInterest), 0);
+            }
+            prepaid = prepaid || amount > scheduled;
+            // nothing to redraw once paid off
+            const availableRedraw = balance > 0 ? Math.max(this._round(contractualBalance - balance), 0) : 0;
+            const redraw = hasRedrawEvents
+                ? Math.min(sumDueEvents(this._redrawEvents, p, date, paymentDate), availableRedraw) : 0;
+            if (redraw) {
+                balance = this._round(balance + redraw);
+            }
+            if (hasOffsetTransactions) {
+                offset = Math.max(this._round(offset + sumDueEvents(this._offsetTransactions, p, date, paymentDate)), 0);
+            }
+            redrawable = this._round(availableRedraw - redraw);
+            const payment: LoanPayment = {
+                amount: amount,
+                principal: principal,
+                interest: interest,
+                balance: balance,
+                rate: rate,
+                repayment: scheduled,
+                date: paymentDate,
+                extra: Math.max(this._round(amount - scheduled), 0),
+                offsetBalance: offset,
+                fees: p % ppy === 0 ? feesWithAnnualFee : fees,
+                insurance: pmiCancelled ? 0 : pmi,
+                propertyTax: hasEscrow ? this._calcEscrow(p, this._propertyTax, this._propertyTaxGrowthRate) : 0,
+                homeInsurance: hasEscrow ? this._calcEscrow(p, this._homeInsurance, this._homeInsuranceGrowthRate) : 0,
+                hoaDues: hoaDues,
+                balloon: balloonDue ? Math.max(this._round(amount - regular), 0) : 0,
+                // the last repayment paying off the balance is amortising
+                phase: lastDue && principal > 0 ? 'amortising'
+                    : paused ? 'pause' : interestOnly ? 'interest-only' : 'amortising',
+                redraw: redraw,
+                availableRedraw: redrawable
+            };
+            date = paymentDate;
+            return payment;
+        };
+
+        let p = 0;
+        let done = false;
+        return () => {
+            if (done) {
+                return null;
+            }
+            let payment: LoanPayment;
+            if (round(balance, 2) > 0 && p < maxPaymentsCount) {
+                payment = calcPayment(p++);
+            } else if (round(balance, 2) > 0.01) { // ignore less-than-cent balance diffs
+                // redrawn with the last repayment, paid out
+                payment = {
+                    amount: balance,
+                    principal: balance,
+                    interest: 0,
+                    balance: 0,
+                    rate: rate,
+                    repayment: 0,
+                    date: date,
+                    extra: 0,
+                    offsetBalance: offset,
+                    fees: 0,
+                    insurance: 0,
+                    propertyTax: 0,
+                    homeInsurance: 0,
+                    hoaDues: 0,
+                    balloon: 0,
+                    phase: 'amortising',
+                    redraw: 0,
+                    availableRedraw: 0
+                };
+                balance = 0;
+            } else {
+                done = true;
+                return null;
+            }
+            if (!(round(balance, 2) > 0 && p < maxPaymentsCount) && round(balance, 2) <= 0.01) {
+                payment.fees = this._round(payment.fees + this._dischargeFee);
+                if (!withDates) {
+                    payment.date = this._addPeriods(scheduleStart, p - 1 + scheduleOffset);
+                }
+                done = true;
+            }
+            return payment;
+        };
+    }
 
-        if (round(balance, 2) > 0.01) { // ignore less-than-cent balance diffs
-            // Interest only loan
-            this._addPayment(balance, balance, 0, 0);
+    /**
+     * @param p Repayment number.
+     * @param yearly Yearly amount for the first loan year.
+     * @param growthRate Yearly growth rate, 0-100.
+     * @return Part of the yearly amount for the repayment.
+     */
+    private _calcEscrow(p: number, yearly: number, growthRate: number): number {
+        if (!yearly) {
+            return 0;
         }
+        const year = Math.floor(p / this.paymentsCountPerYear);
+        return this._round(yearly * Math.pow(1 + growthRate / 100, year) / this.paymentsCountPerYear);
+    }
 
-        this._calculated = true;
+    /**
+     * @return Whether any of the events, rate changes or recast points is set by the date.
+     */
+    private _hasDateEvents(): boolean {
+        const events: RepaymentEvent[] = [];
+        const starts = events.concat(this._extraPaymentEvents, this._redrawEvents, this._offsetTransactions,
+            this._repaymentHolidays, this._rateChanges.map(change => ({start: change.start})),
+            this._recastPoints.map(point => ({start: point})));
+        return starts.some(event => event.start instanceof Date || event.end instanceof Date);
+    }
+
+    /**
+     * @return Loan amount including the capitalised LMI premium.
+     */
+    private _financedAmount(): number {
+        return this._capitaliseLmi ? this._amount + this._lmiPremium : this._amount;
     }
 
-    private _addPayment(amount: number, principal: number, interest: number, balance: number) {
-        let payment = {
-            amount: amount,
-            principal: principal,
-            interest: interest,
-            balance: balance
-        } as LoanPayment;
-        this._payments.push(payment);
-        this._totalCost += payment.amount;
-        this._totalInterest += payment.interest;
+    /**
+     * @return Loan cash flows for each repayment period, starting from the loan amount
+     * less upfront fees and insurance, followed by repayments including fees and insurance (negative).
+     */
+    private _cashFlows(): number[] {
+        const flows = [this._amount - this._establishmentFee - (this._capitaliseLmi ? 0 : this._lmiPremium)];
+        let date: Date | null = null;
+        for (const payment of this.payments) {
+            const flow = -(payment.amount + payment.fees + payment.insurance);
+            if (date && date.getTime() === payment.date.getTime()) {
+                // paid with the previous repayment
+                flows[flows.length - 1] += flow;
+            } else {
+                flows.push(flow);
+            }
+            date = payment.date;
+        }
+        return flows;
     }
 
     private _round(num: number): number {
-        return round(num, this._rounding);
+        return this._exactDecimal ? roundHalfUp(num, 2) : round(num, this._rounding);
+    }
+}
+
+/**
+ * Iterator over the payments calculated one by one.
+ */
+class PaymentsIterator implements IterableIterator<LoanPayment> {
+
+    constructor(private readonly _next: () => LoanPayment | null) {
+    }
+
+    next(): IteratorResult<LoanPayment> {
+        const payment = this._next();
+        return payment ? {done: false, value: payment} : {done: true} as IteratorResult<LoanPayment>;
+    }
+
+    [Symbol.iterator](): IterableIterator<LoanPayment> {
+        return this;
     }
 }
 
+/**
+ * Max loan term when the term is extended by the calculation, e.g. keeping
+ * the repayment amount after the rate increase.
+ */
+const MAX_TERM_YEARS = 100;
+
+const POWERS_OF_TEN = [1, 1e1, 1e2, 1e3, 1e4, 1e5, 1e6, 1e7, 1e8, 1e9, 1e10, 1e11, 1e12, 1e13, 1e14, 1e15];
+
 function round(num: number, f: number) {
-    const div = Math.pow(10, f);
+    const div = f < POWERS_OF_TEN.length ? POWERS_OF_TEN[f] : Math.pow(10, f);
     return Math.round((num + Number.EPSILON) * div) / div;
 }
+
+/**
+ * Rounds half away from zero by the decimal representation of the number,
+ * e.g. 1.005 to 1.01, which is 1.00499999999999989... as the binary floating point number.
+ * The result is the closest floating point number to the rounded decimal one.
+ */
+function roundHalfUp(num: number, f: number) {
+    const scaled = +(Math.abs(num) * Math.pow(10, f)).toPrecision(15);
+    return Math.sign(num) * Math.round(scaled) / Math.pow(10, f);
+}
+
+/**
+ * @return Amount of the repayment to pay off the loan amount with the given number of repayments,
+ * leaving the residual amount outstanding.
+ */
+function annuity(amount: number, rate: number, count: number, residual = 0): number {
+    if (!rate) {
+        return (amount - residual) / count;
+    }
+    const x = Math.pow(1 + rate, count);
+    return ((amount * x - residual) * rate) / (x - 1);
+}
+
+/**
+ * @param amount Loan amount.
+ * @param rate Interest rate for the repayment period, 0-1.
+ * @param count Number of repayments.
+ * @param residual Amount left outstanding.
+ * @param ppy Repayments count per year.
+ * @param growth Yearly repayment increase, 0-1.
+ * @param years Number of years the repayment increases for.
+ * @param start Number of repayments made since the first graduated repayment.
+ * @return First year repayment increasing by the growth each year, which pays off
+ * the loan amount with the given number of repayments.
+ */
+function graduatedAnnuity(amount: number, rate: number, count: number, residual: number,
+                          ppy: number, growth: number, years: number, start: number): number {
+    let factors = 0;
+    let discount = 1;
+    for (let i = 0; i < count; ++i) {
+        discount /= 1 + rate;
+        factors += Math.pow(1 + growth, Math.min(Math.floor((start + i) / ppy), years)) * discount;
+    }
+    return (amount - residual * discount) / factors;
+}
+
+/**
+ * @param charge Total interest to allocate.
+ * @param count Number of repayments to allocate the interest between.
+ * @param k Repayment number, 0-based from the first one of the count.
+ * @return Part of the interest allocated to the repayment by the Rule of 78 (sum of digits).
+ */
+function allocateByRuleOf78(charge: number, count: number, k: number): number {
+    return k < count ? charge * (count - k) * 2 / (count * (count + 1)) : 0;
+}
+
+/**
+ * @return The last of the rate changes due with the repayment, if any.
+ */
+function findDueRateChange(changes: RateChange[], p: number, from: Date, to: Date): RateChange | undefined {
+    let due: RateChange | undefined;
+    for (const change of changes) {
+        if (isDue(p, from, to, change.start)) {
+            due = change;
+        }
+    }
+    return due;
+}
+
+/**
+ * @return The last of the repayment holidays due with the repayment, if any.
+ */
+function findDueHoliday(holidays: RepaymentHoliday[], p: number, from: Date, to: Date): RepaymentHoliday | undefined {
+    let due: RepaymentHoliday | undefined;
+    for (const holiday of holidays) {
+        if (isEventDue(holiday, p, from, to)) {
+            due = holiday;
+        }
+    }
+    return due;
+}
+
+/**
+ * @param events Events with amounts.
+ * @param p Repayment number.
+ * @param from Previous payment date (or loan start date).
+ * @param to Payment date.
+ * @return Sum of event amounts due with the repayment.
+ */
+function sumDueEvents(events: Array<RepaymentEvent & { amount: number }>, p: number, from: Date, to: Date): number {
+    let sum = 0;
+    for (const event of events) {
+        if (isEventDue(event, p, from, to)) {
+            sum += event.amount;
+        }
+    }
+    return sum;
+}
+
+function isEventDue(event: RepaymentEvent, p: number, from: Date, to: Date): boolean {
+    if (event.recurring || event.end !== undefined) {
+        return isOnOrAfter(p, to, event.start) && (event.end === undefined || isOnOrBefore(p, to, event.end));
+    }
+    return isDue(p, from, to, event.start);
+}
+
+/**
+ * @return Whether the repayment is the first one due on or after the given repayment number or date.
+ */
+function isDue(p: number, from: Date, to: Date, at: number | Date): boolean {
+    if (typeof at === 'number') {
+        return p === at;
+    }
+    return at <= to && (p === 0 || at > from);
+}
+
+function isOnOrAfter(p: number, date: Date, at: number | Date): boolean {
+    return typeof at === 'number' ? p >= at : date >= at;
+}
+
+function isOnOrBefore(p: number, date: Date, at: number | Date): boolean {
+    return typeof at === 'number' ? p <= at : date <= at;
+}
+
+function today(): Date {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+}
+
+function daysInMonth(year: number, month: number): number {
+    return new Date(year, month + 1, 0).getDate();
+}
+
+function isLastDayOfMonth(date: Date): boolean {
+    return date.getDate() === daysInMonth(date.getFullYear(), date.getMonth());
+}
+
+function addDays(date: Date, days: number): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+/**
+ * Adds months keeping the day of month, or the last day of month
+ * if the date is at the end of the month or the target month is shorter.
+ */
+function addMonths(date: Date, months: number): Date {
+    const result = new Date(date.getFullYear(), date.getMonth() + months, 1);
+    const lastDay = daysInMonth(result.getFullYear(), result.getMonth());
+    result.setDate(isLastDayOfMonth(date) ? lastDay : Math.min(date.getDate(), lastDay));
+    return result;
+}
+
+function daysBetween(from: Date, to: Date): number {
+    const fromUtc = Date.UTC(from.getFullYear(), from.getMonth(), from.getDate());
+    const toUtc = Date.UTC(to.getFullYear(), to.getMonth(), to.getDate());
+    return Math.round((toUtc - fromUtc) / 86400000);
+}
+
+/**
+ * Day count by the US (NASD) 30/360 rules.
+ */
+function days360(from: Date, to: Date): number {
+    const fromFebEnd = from.getMonth() === 1 && isLastDayOfMonth(from);
+    const toFebEnd = to.getMonth() === 1 && isLastDayOfMonth(to);
+    let d1 = from.getDate();
+    let d2 = to.getDate();
+    if (fromFebEnd && toFebEnd) {
+        d2 = 30;
+    }
+    if (fromFebEnd) {
+        d1 = 30;
+    }
+    if (d2 === 31 && d1 >= 30) {
+        d2 = 30;
+    }
+    if (d1 === 31) {
+        d1 = 30;
+    }
+    return 360 * (to.getFullYear() - from.getFullYear()) + 30 * (to.getMonth() - from.getMonth()) + d2 - d1;
+}
+
+function yearFraction(from: Date, to: Date, convention: DayCountConvention): number {
+    switch (convention) {
+        case 'actual/360':
+            return daysBetween(from, to) / 360;
+        case '30/360':
+            return days360(from, to) / 360;
+        default:
+            return daysBetween(from, to) / 365;
+    }
+}
@@ -0,0 +1,410 @@
+import {
+    IndexMarginRateAdjustment,
+    IndexMarginRateAdjustmentOptions,
+    RateAdjustmentStrategy,
+    ScheduledRateAdjustment,
+    StepRateAdjustment
+} from './arm';
+import {ExtraPaymentEvent, LoanOptions, RateChange, RepaymentEvent, RepaymentHoliday} from './index';
+import {
+    AMORTISATION_METHODS,
+    DAY_COUNT_CONVENTIONS,
+    INTEREST_ACCRUALS,
+    PREPAYMENT_HANDLINGS,
+    REPAYMENT_FREQUENCIES,
+    REPAYMENT_HOLIDAY_HANDLINGS,
+    REPAYMENT_HOLIDAY_TYPES
+} from './validation';
+
+/**
+ * Version of the loan JSON schema, increased with incompatible changes of the loan options.
+ * Loans saved with the previous schema versions are migrated on load.
+ */
+export const LOAN_SCHEMA_VERSION = 1;
+
+/**
+ * Loan options serialized to JSON, dates as 'YYYY-MM-DD' strings.
+ */
+export type LoanJSON = {version: number} & LoanOptionsJSON;
+
+/**
+ * ARM rate adjustment strategy serialized to JSON.
+ */
+export type RateAdjustmentStrategyJSON =
+    | {type: 'step'; initialVariableRate: number; adjustmentRate: number; maximumRate: number}
+    | {type: 'index-margin'; index: number | number[]; margin: number;
+        initialCap?: number; periodicCap?: number; lifetimeCap?: number; floor?: number}
+    | {type: 'scheduled'; rates: number[]};
+
+type LoanOptionsJSON = {[K in keyof LoanOptions]?: OptionJSON<LoanOptions[K]>};
+
+type OptionJSON<T> = T extends Date ? string
+    : T extends RateAdjustmentStrategy ? RateAdjustmentStrategyJSON
+        : T extends Array<infer E> ? Array<EventJSON<E>> : T;
+
+type EventJSON<T> = T extends Date ? string
+    : T extends object ? {[K in keyof T]: EventJSON<T[K]>} : T;
+
+/**
+ * Value parsed from JSON, checked before it's used as a loan option.
+ */
+type JSONValue = string | number | boolean | null | JSONObject | JSONArray;
+
+interface JSONObject {
+    [key: string]: JSONValue | undefined;
+}
+
+interface JSONArray extends Array<JSONValue> {
+}
+
+/**
+ * Thrown when the loan JSON is invalid or saved with an unsupported schema version.
+ */
+export class LoanSchemaError extends Error {
+
+    constructor(readonly errors: string[]) {
+        super('Invalid loan JSON: ' + errors.join('; '));
+        Object.setPrototypeOf(this, LoanSchemaError.prototype);
+        this.name = 'LoanSchemaError';
+    }
+}
+
+/**
+ * Converts the loan option to JSON and back, values restored from invalid JSON are reported to the errors.
+ */
+interface OptionConverter<T> {
+    toJSON(value: T): OptionJSON<T>;
+
+    fromJSON(value: JSONValue | undefined, path: string, errors: string[]): T;
+}
+
+const NUMBER: OptionConverter<number | undefined> = {toJSON: same, fromJSON: checkNumber};
+const BOOLEAN: OptionConverter<boolean | undefined> = {toJSON: same, fromJSON: checkBoolean};
+const DATE: OptionConverter<Date | undefined> = {
+    toJSON: date => date && formatDate(date),
+    fromJSON: parseDate
+};
+const STARTS: OptionConverter<Array<number | Date> | undefined> = {
+    toJSON: starts => starts && starts.map(startToJSON),
+    fromJSON: (value, path, errors) => arrayFromJSON(value, path, errors, startFromJSON)
+};
+const AMOUNT_EVENTS: OptionConverter<ExtraPaymentEvent[] | undefined> = {
+    toJSON: events => events && events.map(event => ({...eventToJSON(event), amount: event.amount})),
+    fromJSON: (value, path, errors) => arrayFromJSON(value, path, errors, amountEventFromJSON)
+};
+
+const OPTIONS: {[K in keyof LoanOptions]-?: OptionConverter<LoanOptions[K]>} = {
+    amount: NUMBER,
+    interestRate: NUMBER,
+    months: NUMBER,
+    years: NUMBER,
+    repaymentFrequency: {toJSON: same, fromJSON: oneOf(REPAYMENT_FREQUENCIES)},
+    extraPayment: NUMBER,
+    extraPaymentEvents: AMOUNT_EVENTS,
+    prepaymentHandling: {toJSON: same, fromJSON: oneOf(PREPAYMENT_HANDLINGS)},
+    recastPoints: STARTS,
+    redrawEvents: AMOUNT_EVENTS,
+    amortisationMethod: {toJSON: same, fromJSON: oneOf(AMORTISATION_METHODS)},
+    interestOnlyRepaymentCount: NUMBER,
+    interestOnlyYears: NUMBER,
+    balloonAmount: NUMBER,
+    balloonPercentage: NUMBER,
+    repaymentHolidays: {
+        toJSON: holidays => holidays && holidays.map(holiday => ({type: holiday.type, ...eventToJSON(holiday)})),
+        fromJSON: (value, path, errors) => arrayFromJSON(value, path, errors, repaymentHolidayFromJSON)
+    },
+    repaymentHolidayHandling: {toJSON: same, fromJSON: oneOf(REPAYMENT_HOLIDAY_HANDLINGS)},
+    graduatedPaymentRate: NUMBER,
+    graduatedPaymentYears: NUMBER,
+    negativeAmortisationCap: NUMBER,
+    calculateWeeklyAndFortnightlyRepaymentsBasedOnYearlyRepayments: BOOLEAN,
+    rounding: NUMBER,
+    exactDecimal: BOOLEAN,
+    strictValidation: BOOLEAN,
+    establishmentFee: NUMBER,
+    monthlyFee: NUMBER,
+    annualFee: NUMBER,
+    dischargeFee: NUMBER,
+    propertyValue: NUMBER,
+    lmiPremium: NUMBER,
+    capitaliseLmi: BOOLEAN,
+    pmiRate: NUMBER,
+    pmiCancellationLvr: NUMBER,
+    propertyTax: NUMBER,
+    propertyTaxGrowthRate: NUMBER,
+    homeInsurance: NUMBER,
+    homeInsuranceGrowthRate: NUMBER,
+    hoaDues: NUMBER,
+    offsetBalance: NUMBER,
+    offsetTransactions: AMOUNT_EVENTS,
+    startDate: DATE,
+    firstPaymentDate: DATE,
+    dayCountConvention: {toJSON: same, fromJSON: oneOf(DAY_COUNT_CONVENTIONS)},
+    interestAccrual: {toJSON: same, fromJSON: oneOf(INTEREST_ACCRUALS)},
+    rateChanges: {
+        toJSON: changes => changes && changes.map(change => ({start: startToJSON(change.start), rate: change.rate})),
+        fromJSON: (value, path, errors) => arrayFromJSON(value, path, errors, rateChangeFromJSON)
+    },
+    keepRepaymentOnRateChange: BOOLEAN,
+    interestRateShock: NUMBER,
+    armFixedRateForRepaymentCount: NUMBER,
+    armFixedRateForYears: NUMBER,
+    armInitialVariableRate: NUMBER,
+    armRepaymentCountBetweenAdjustments: NUMBER,
+    armMonthsBetweenAdjustments: NUMBER,
+    armExpectedAdjustmentRate: NUMBER,
+    armMaximumInterestRate: NUMBER,
+    armRateAdjustmentStrategy: {
+        toJSON: strategy => strategy && strategyToJSON(strategy),
+        fromJSON: (value, path, errors) => value === null ? null : strategyFromJSON(value, path, errors)
+    }
+};
+
+/**
+ * Serializes the loan options to JSON.
+ * Custom ARM rate adjustment strategies can't be serialized.
+ */
+export function loanOptionsToJSON(options: LoanOptions): LoanJSON {
+    const json: LoanOptionsJSON = {};
+    for (const key of Object.keys(OPTIONS) as Array<keyof LoanOptions>) {
+        optionToJSON(options, key, json);
+    }
+    return {version: LOAN_SCHEMA_VERSION, ...json};
+}
+
+/**
+ * Validates and restores the loan options from JSON.
+ * @param json Loan JSON object or string.
+ * @throws LoanSchemaError
+ */
+export function loanOptionsFromJSON(json: LoanJSON | string): LoanOptions {
+    let data: JSONValue = json;
+    if (typeof json === 'string') {
+        try {
+            data = JSON.parse(json);
+        } catch (e) {
+            throw new LoanSchemaError([e.message]);
+        }
+    }
+    if (!isObject(data)) {
+        throw new LoanSchemaError(['expected an object']);
+    }
+    const version = data.version;
+    if (typeof version !== 'number' || version < 1 || version > LOAN_SCHEMA_VERSION) {
+        throw new LoanSchemaError([`unsupported schema version ${version}`]);
+    }
+    const errors: string[] = [];
+    const options: LoanOptions = {};
+    for (const key of Object.keys(data)) {
+        if (key === 'version') {
+            continue;
+        }
+        if (!isOption(key)) {
+            errors.push(`${key}: unknown option`);
+            continue;
+        }
+        optionFromJSON(data[key], key, options, errors);
+    }
+    if (errors.length) {
+        throw new LoanSchemaError(errors);
+    }
+    return options;
+}
+
+function optionToJSON<K extends keyof LoanOptions>(options: LoanOptions, key: K, json: LoanOptionsJSON) {
+    const converter: OptionConverter<LoanOptions[K]> = OPTIONS[key];
+    const value = options[key];
+    if (value !== undefined) {
+        json[key] = converter.toJSON(value);
+    }
+}
+
+function optionFromJSON<K extends keyof LoanOptions>(value: JSONValue | undefined, key: K, options: LoanOptions,
+                                                     errors: string[]) {
+    options[key] = OPTIONS[key].fromJSON(value, key, errors);
+}
+
+function isOption(key: string): key is keyof LoanOptions {
+    return OPTIONS.hasOwnProperty(key);
+}
+
+function same<T>(value: T): T {
+    return value;
+}
+
+function eventToJSON(event: RepaymentEvent): EventJSON<RepaymentEvent> {
+    const json: EventJSON<RepaymentEvent> = {start: startToJSON(event.start)};
+    if (event.end !== undefined) {
+        json.end = startToJSON(event.end);
+    }
+    if (event.recurring !== undefined) {
+        json.recurring = event.recurring;
+    }
+    return json;
+}
+
+function eventFromJSON(value: JSONObject, path: string, errors: string[]): RepaymentEvent {
+    const event: RepaymentEvent = {start: startFromJSON(value.start, `${path}.start`, errors)};
+    if (value.end !== undefined) {
+        event.end = startFromJSON(value.end, `${path}.end`, errors);
+    }
+    if (value.recurring !== undefined) {
+        event.recurring = checkBoolean(value.recurring, `${path}.recurring`, errors);
+    }
+    return event;
+}
+
+function amountEventFromJSON(value: JSONValue, path: string, errors: string[]): ExtraPaymentEvent {
+    const object = objectFromJSON(value, path, errors);
+    return {amount: checkNumber(object.amount, `${path}.amount`, errors), ...eventFromJSON(object, path, errors)};
+}
+
+function repaymentHolidayFromJSON(value: JSONValue, path: string, errors: string[]): RepaymentHoliday {
+    const object = objectFromJSON(value, path, errors);
+    return {
+        type: oneOf(REPAYMENT_HOLIDAY_TYPES)(object.type, `${path}.type`, errors),
+        ...eventFromJSON(object, path, errors)
+    };
+}
+
+function rateChangeFromJSON(value: JSONValue, path: string, errors: string[]): RateChange {
+    const object = objectFromJSON(value, path, errors);
+    return {
+        start: startFromJSON(object.start, `${path}.start`, errors),
+        rate: checkNumber(object.rate, `${path}.rate`, errors)
+    };
+}
+
+function startToJSON(start: number | Date): number | string {
+    return typeof start === 'number' ? start : formatDate(start);
+}
+
+function startFromJSON(value: JSONValue | undefined, path: string, errors: string[]): number | Date {
+    return typeof value === 'number' ? checkNumber(value, path, errors) : parseDate(value, path, errors);
+}
+
+function strategyToJSON(strategy: RateAdjustmentStrategy): RateAdjustmentStrategyJSON {
+    if (strategy instanceof StepRateAdjustment) {
+        return {
+            type: 'step',
+            initialVariableRate: strategy.initialVariableRate,
+            adjustmentRate: strategy.adjustmentRate,
+            maximumRate: strategy.maximumRate
+        };
+    }
+    if (strategy instanceof IndexMarginRateAdjustment) {
+        return {type: 'index-margin', ...strategy.options};
+    }
+    if (strategy instanceof ScheduledRateAdjustment) {
+        return {type: 'scheduled', rates: strategy.rates};
+    }
+    throw new Error('Custom ARM rate adjustment strategy can\'t be serialized');
+}
+
+function strategyFromJSON(value: JSONValue | undefined, path: string, errors: string[]): RateAdjustmentStrategy | null {
+    if (!isObject(value)) {
+        errors.push(`${path}: expected an object`);
+        return null;
+    }
+    switch (value.type) {
+        case 'step':
+            return new StepRateAdjustment(
+                checkNumber(value.initialVariableRate, `${path}.initialVariableRate`, errors),
+                checkNumber(value.adjustmentRate, `${path}.adjustmentRate`, errors),
+                checkNumber(value.maximumRate, `${path}.maximumRate`, errors));
+        case 'index-margin':
+            const index = value.index;
+            const options: IndexMarginRateAdjustmentOptions = {
+                index: Array.isArray(index)
+                    ? index.map((rate, i) => checkNumber(rate, `${path}.index[${i}]`, errors))
+                    : checkNumber(index, `${path}.index`, errors),
+                margin: checkNumber(value.margin, `${path}.margin`, errors)
+            };
+            const limits: Array<'initialCap' | 'periodicCap' | 'lifetimeCap' | 'floor'> =
+                ['initialCap', 'periodicCap', 'lifetimeCap', 'floor'];
+            for (const key of limits) {
+                if (value[key] !== undefined) {
+                    options[key] = checkNumber(value[key], `${path}.${key}`, errors);
+                }
+            }
+            return new IndexMarginRateAdjustment(options);
+        case 'scheduled':
+            const rates = value.rates;
+            if (!Array.isArray(rates)) {
+                errors.push(`${path}.rates: expected an array`);
+                return null;
+            }
+            return new ScheduledRateAdjustment(rates.map((rate, i) => checkNumber(rate, `${path}.rates[${i}]`, errors)));
+    }
+    errors.push(`${path}.type: unknown strategy ${value.type}`);
+    return null;
+}
+
+function arrayFromJSON<T>(value: JSONValue | undefined, path: string, errors: string[],
+                          itemFromJSON: (item: JSONValue, path: string, errors: string[]) => T): T[] {
+    if (!Array.isArray(value)) {
+        errors.push(`${path}: expected an array`);
+        return [];
+    }
+    return value.map((item, i) => itemFromJSON(item, `${path}[${i}]`, errors));
+}
+
+function objectFromJSON(value: JSONValue, path: string, errors: string[]): JSONObject {
+    if (!isObject(value)) {
+        errors.push(`${path}: expected an object`);
+        return {};
+    }
+    return value;
+}
+
+function checkNumber(value: JSONValue | undefined, path: string, errors: string[]): number {
+    if (typeof value !== 'number' || !isFinite(value)) {
+        errors.push(`${path}: expected a number`);
+        return NaN;
+    }
+    return value;
+}
+
+function checkBoolean(value: JSONValue | undefined, path: string, errors: string[]): boolean {
+    if (typeof value !== 'boolean') {
+        errors.push(`${path}: expected a boolean`);
+        return false;
+    }
+    return value;
+}
+
+/**
+ * @return Function checking the value is one of the allowed values.
+ */
+function oneOf<T extends string>(values: T[]): (value: JSONValue | undefined, path: string, errors: string[]) => T {
+    return (value, path, errors) => {
+        for (const allowed of values) {
+            if (allowed === value) {
+                return allowed;
+            }
+        }
+        errors.push(`${path}: expected one of ${values.join(', ')}`);
+        return values[0];
+    };
+}
+
+function isObject(value: JSONValue | undefined): value is JSONObject {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function formatDate(date: Date): string {
+    const pad = (n: number) => (n < 10 ? '0' : '') + n;
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function parseDate(value: JSONValue | undefined, path: string, errors: string[]): Date {
+    const match = typeof value === 'string' && /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+    if (match) {
+        const date = new Date(+match[1], +match[2] - 1, +match[3]);
+        if (date.getMonth() === +match[2] - 1 && date.getDate() === +match[3]) {
+            return date;
+        }
+    }
+    errors.push(`${path}: expected a date in the YYYY-MM-DD format`);
+    return new Date(NaN);
+}
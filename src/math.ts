@@ -0,0 +1,66 @@
+/**
+ * Finds the root of the monotonic function f on the [lo, hi] interval by bisection.
+ * @return The root, or null if f doesn't change its sign on the interval.
+ */
+export function findRoot(f: (x: number) => number, lo: number, hi: number, tolerance = 1e-10): number | null {
+    let fLo = f(lo);
+    const fHi = f(hi);
+    if (fLo === 0) {
+        return lo;
+    }
+    if (fHi === 0) {
+        return hi;
+    }
+    if (isNaN(fLo) || isNaN(fHi) || (fLo > 0) === (fHi > 0)) {
+        return null;
+    }
+    for (let i = 0; i < 200 && hi - lo > tolerance * Math.max(1, Math.abs(lo)); ++i) {
+        const mid = (lo + hi) / 2;
+        const fMid = f(mid);
+        if (fMid === 0) {
+            return mid;
+        }
+        if ((fMid > 0) === (fLo > 0)) {
+            lo = mid;
+            fLo = fMid;
+        } else {
+            hi = mid;
+        }
+    }
+    return (lo + hi) / 2;
+}
+
+/**
+ * Finds the smallest integer in [lo, hi] for which the monotonic predicate is true.
+ * @return The integer, or null if the predicate is false for hi.
+ */
+export function findFirstInteger(predicate: (n: number) => boolean, lo: number, hi: number): number | null {
+    if (!predicate(hi)) {
+        return null;
+    }
+    while (lo < hi) {
+        const mid = Math.floor((lo + hi) / 2);
+        if (predicate(mid)) {
+            hi = mid;
+        } else {
+            lo = mid + 1;
+        }
+    }
+    return hi;
+}
+
+/**
+ * @param flows Cash flows for equal periods, starting from period 0.
+ * @return Internal rate of return per period, 0-1, or null if there is no solution.
+ */
+export function irr(flows: number[]): number | null {
+    return findRoot(rate => npv(rate, flows), -0.99, 1);
+}
+
+function npv(rate: number, flows: number[]): number {
+    let value = 0;
+    for (let i = flows.length - 1; i >= 0; --i) {
+        value = value / (1 + rate) + flows[i];
+    }
+    return value;
+}
@@ -0,0 +1,152 @@
+import {Loan, LoanInterface, LoanOptions, LoanPayment} from './index';
+
+export interface RefinanceOptions {
+    /**
+     * Number of the current loan repayments made before the switch,
+     * the remaining balance is paid out with the new loan.
+     */
+    switchAfter: number;
+
+    /**
+     * New loan options, the start date defaults to the switch date
+     * (the last repayment date of the current loan) and the amount
+     * defaults to the remaining balance of the current loan.
+     */
+    newLoan: LoanOptions;
+
+    /**
+     * Switching costs, e.g. discharge, application and legal fees.
+     * Default is 0.
+     */
+    switchingCosts?: number;
+
+    /**
+     * Whether to add the switching costs to the new loan amount
+     * instead of paying them at the switch.
+     * Default is false.
+     */
+    capitaliseSwitchingCosts?: boolean;
+}
+
+export interface RefinanceResult {
+    /**
+     * The new loan.
+     */
+    newLoan: LoanInterface;
+
+    /**
+     * Combined schedule: the current loan repayments before the switch
+     * followed by the new loan repayments.
+     */
+    payments: LoanPayment[];
+
+    /**
+     * Total interest of the refinanced loan (both loans).
+     */
+    totalInterest: number;
+
+    /**
+     * Total repayments sum of the refinanced loan (both loans), including fees and switching costs.
+     */
+    totalCost: number;
+
+    /**
+     * Interest saved over the life of the loan compared to keeping the current loan,
+     * negative if refinancing costs more interest.
+     */
+    interestSaved: number;
+
+    /**
+     * Total cost saved compared to keeping the current loan, including switching costs.
+     */
+    totalCostSaved: number;
+
+    /**
+     * Repayment number (0-based index in the combined schedule) the refinanced loan
+     * is better off than the current loan with, or null if it never is.
+     * Net positions are compared: repayments and costs paid so far plus the balance owed,
+     * so capitalised switching costs count and lower repayments over a longer term don't.
+     */
+    breakEvenPeriod: number | null;
+}
+
+/**
+ * Pays out the loan partway through with the new loan.
+ * @param loan Current loan.
+ * @throws RangeError if the switch is not before the last repayment of the current loan,
+ * or the current loan is paid off by the switch.
+ */
+export function refinance(loan: LoanInterface, options: RefinanceOptions): RefinanceResult {
+    const current = loan.payments;
+    const switchAfter = options.switchAfter;
+    if (!(switchAfter >= 0 && switchAfter < current.length) || switchAfter % 1) {
+        throw new RangeError(`Invalid switchAfter ${switchAfter}, expected an integer from 0 to ${current.length - 1}`);
+    }
+    const before = current.slice(0, switchAfter);
+    const costs = options.switchingCosts || 0;
+    const balance = before.length ? before[before.length - 1].balance : loan.amount;
+    if (balance < 0.01) { // ignore less-than-cent balance diffs
+        throw new RangeError(`The loan is paid off after ${switchAfter} repayments`);
+    }
+    const newLoan = new Loan({
+        startDate: before.length ? before[before.length - 1].date : loan.startDate,
+        amount: balance + (options.capitaliseSwitchingCosts ? costs : 0),
+        ...options.newLoan
+    });
+    const payments = before.concat(newLoan.payments);
+    const upfrontCosts = (options.capitaliseSwitchingCosts ? 0 : costs) + upfrontCost(newLoan);
+
+    let totalInterest = 0;
+    let totalCost = upfrontCost(loan) + upfrontCosts;
+    for (const payment of payments) {
+        totalInterest += payment.interest;
+        totalCost += outflow(payment);
+    }
+
+    // net position of the current loan by the refinanced loan repayment dates
+    let breakEvenPeriod: number | null = null;
+    let currentPaid = 0;
+    let currentBalance = loan.amount;
+    let refinancedPaid = upfrontCosts;
+    for (let i = 0, c = 0; i < payments.length; ++i) {
+        const date = payments[i].date;
+        for (; c < current.length && current[c].date <= date; ++c) {
+            currentPaid += outflow(current[c]);
+            currentBalance = current[c].balance;
+        }
+        refinancedPaid += outflow(payments[i]);
+        // ignore less-than-cent diffs
+        if (i >= before.length && currentPaid + currentBalance - refinancedPaid - payments[i].balance >= 0.01) {
+            breakEvenPeriod = i;
+            break;
+        }
+    }
+
+    return {
+        newLoan: newLoan,
+        payments: payments,
+        totalInterest: totalInterest,
+        totalCost: totalCost,
+        interestSaved: loan.totalInterest - totalInterest,
+        totalCostSaved: loan.totalCost - totalCost,
+        breakEvenPeriod: breakEvenPeriod
+    };
+}
+
+/**
+ * @return Payment amount including fees and insurance.
+ */
+function outflow(payment: LoanPayment): number {
+    return payment.amount + payment.fees + payment.insurance;
+}
+
+/**
+ * @return Loan costs paid upfront, e.g. establishment fee.
+ */
+function upfrontCost(loan: LoanInterface): number {
+    let cost = loan.totalCost;
+    for (const payment of loan.payments) {
+        cost -= outflow(payment);
+    }
+    return cost;
+}
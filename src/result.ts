@@ -0,0 +1,96 @@
+import {Loan, LoanInterface, LoanOptions, LoanPayment} from './index';
+
+/**
+ * Frozen calculation result of the loan.
+ */
+export interface LoanResult {
+    /**
+     * Options the loan is calculated with.
+     */
+    readonly options: Readonly<LoanOptions>;
+
+    /**
+     * @see LoanInterface#repaymentAmount
+     */
+    readonly repaymentAmount: number;
+
+    /**
+     * @see LoanInterface#totalCost
+     */
+    readonly totalCost: number;
+
+    readonly totalInterest: number;
+
+    readonly totalFees: number;
+
+    readonly totalInsurance: number;
+
+    readonly totalPropertyTax: number;
+
+    readonly totalHomeInsurance: number;
+
+    readonly totalHoaDues: number;
+
+    readonly totalOutlay: number;
+
+    /**
+     * Payment schedule, payment dates are copies of the loan ones.
+     */
+    readonly payments: ReadonlyArray<Readonly<LoanPayment>>;
+
+    /**
+     * Immutable builder, e.g. result.with({interestRate: 3.1}).
+     * @return Result calculated with the options changed, the current result is kept unchanged.
+     */
+    with(options: LoanOptions): LoanResult;
+}
+
+/**
+ * Calculates the loan without keeping any mutable state, with the same calculation as the Loan class.
+ * @throws LoanValidationError if the options are invalid and strictValidation is set.
+ */
+export function calculateLoan(options: LoanOptions): LoanResult {
+    return toLoanResult(new Loan(options));
+}
+
+/**
+ * Freezes the calculation result of the loan with its current options.
+ * @throws LoanValidationError if the options are invalid and strictValidation is set.
+ */
+export function toLoanResult(loan: LoanInterface): LoanResult {
+    const copy = loan.clone();
+    return deepFreeze({
+        options: copy.toOptions(),
+        repaymentAmount: copy.repaymentAmount,
+        totalCost: copy.totalCost,
+        totalInterest: copy.totalInterest,
+        totalFees: copy.totalFees,
+        totalInsurance: copy.totalInsurance,
+        totalPropertyTax: copy.totalPropertyTax,
+        totalHomeInsurance: copy.totalHomeInsurance,
+        totalHoaDues: copy.totalHoaDues,
+        totalOutlay: copy.totalOutlay,
+        payments: copy.payments.map(payment => ({...payment, date: new Date(payment.date.getTime())})),
+        // the copy is not shared, so it's never changed after the calculation
+        with: (options: LoanOptions) => copy.with(options)
+    });
+}
+
+/**
+ * Freezes plain objects and arrays recursively,
+ * leaving other objects (e.g. dates and ARM rate adjustment strategies) as is.
+ */
+function deepFreeze<T>(value: T): T {
+    if (isPlainObjectOrArray(value)) {
+        for (const key of Object.keys(value)) {
+            deepFreeze(value[key]);
+        }
+        Object.freeze(value);
+    }
+    return value;
+}
+
+function isPlainObjectOrArray(value: {} | null | undefined): value is {[key: string]: {} | null | undefined} {
+    return Array.isArray(value) || (typeof value === 'object' && value !== null
+        && Object.getPrototypeOf(value) === Object.prototype);
+}
@@ -0,0 +1,122 @@
+import {LoanInterface} from './index';
+import {findFirstInteger, findRoot} from './math';
+
+/**
+ * Target repayment or total cost of the loan to solve for.
+ */
+export type SolverTarget = {
+    /**
+     * Regular repayment (after the interest only period), excluding extra payments.
+     * @see LoanInterface#repaymentAmount
+     */
+    repaymentAmount: number;
+} | {
+    /**
+     * Total repayments sum, including interest only and extra payments.
+     * @see LoanInterface#totalCost
+     */
+    totalCost: number;
+};
+
+/**
+ * Min loan amount to search for, the loan amount should be set.
+ */
+const MIN_AMOUNT = 0.01;
+
+/**
+ * Max loan term to search for, in months.
+ */
+const MAX_TERM_MONTHS = 1200;
+
+/**
+ * Min interest rate to search for, 0-100.
+ */
+const MIN_RATE = 0;
+
+/**
+ * Max interest rate to search for, 0-100.
+ */
+const MAX_RATE = 100;
+
+/**
+ * Calculates the loan amount for the target repayment or total cost,
+ * e.g. "how much can I borrow at $3,000/month?".
+ * @param loan Loan with the interest rate, term and other options set.
+ * @return Loan amount, or null if there is no solution.
+ */
+export function solveAmount(loan: LoanInterface, target: SolverTarget): number | null {
+    const value = targetValue(target);
+    return findRoot(amount => {
+        const copy = cloneCandidate(loan);
+        copy.amount = amount;
+        return calcTargetValue(copy, target) - value;
+    }, MIN_AMOUNT, 'repaymentAmount' in target ? value * loan.paymentsCountTotal : value);
+}
+
+/**
+ * Calculates the loan term in months for the target repayment or total cost,
+ * e.g. "how long to repay at $4,000/fortnight?".
+ * @param loan Loan with the amount, interest rate and other options set.
+ * @return The shortest term the repayment doesn't exceed the target repayment with,
+ * or the longest term the total cost doesn't exceed the target total cost with,
+ * or null if there is no solution.
+ */
+export function solveTerm(loan: LoanInterface, target: SolverTarget): number | null {
+    const value = targetValue(target);
+    const copy = cloneCandidate(loan);
+    const calc = (months: number) => {
+        copy.months = months;
+        return calcTargetValue(copy, target);
+    };
+    // the term should be longer than the interest only period and the ARM fixed rate period
+    const minMonths = findFirstInteger(months => {
+        copy.months = months;
+        return copy.validate().length === 0;
+    }, Math.ceil((loan.interestOnlyRepaymentCount + 1) * 12 / loan.paymentsCountPerYear), MAX_TERM_MONTHS);
+    if (minMonths === null) {
+        return null;
+    }
+    if ('repaymentAmount' in target) {
+        return findFirstInteger(months => calc(months) <= value, minMonths, MAX_TERM_MONTHS);
+    }
+    const exceeding = findFirstInteger(months => !(calc(months) <= value), minMonths, MAX_TERM_MONTHS);
+    return exceeding !== null && exceeding > minMonths ? exceeding - 1 : null;
+}
+
+/**
+ * Calculates the interest rate for the target repayment or total cost,
+ * e.g. "what rate makes this $2,500?".
+ * @param loan Loan with the amount, term and other options set.
+ * @return Interest rate, 0-100, or null if there is no solution.
+ */
+export function solveInterestRate(loan: LoanInterface, target: SolverTarget): number | null {
+    const value = targetValue(target);
+    return findRoot(rate => {
+        const copy = cloneCandidate(loan);
+        copy.interestRate = rate;
+        return calcTargetValue(copy, target) - value;
+    }, MIN_RATE, MAX_RATE);
+}
+
+function targetValue(target: SolverTarget): number {
+    return 'repaymentAmount' in target ? target.repaymentAmount : target.totalCost;
+}
+
+/**
+ * Clones the loan without the strict validation, so invalid candidates are rejected instead of throwing.
+ */
+function cloneCandidate(loan: LoanInterface): LoanInterface {
+    const copy = loan.clone();
+    copy.strictValidation = false;
+    return copy;
+}
+
+/**
+ * @return The target value, or NaN if the loan is invalid, failing the target.
+ */
+function calcTargetValue(loan: LoanInterface, target: SolverTarget): number {
+    if (loan.validate().length) {
+        return NaN;
+    }
+    return 'repaymentAmount' in target ? loan.repaymentAmount : loan.totalCost;
+}
@@ -0,0 +1,171 @@
+import {LoanInterface, LoanPayment, RepaymentFrequency, RepaymentPhase} from './index';
+
+/**
+ * Loan split into several parts, e.g. 60% fixed for 3 years and 40% variable with an offset account,
+ * each part being a separate loan with its own options.
+ */
+export class SplitLoan implements Pick<LoanInterface, 'amount' | 'repaymentAmount' | 'repaymentFrequency'
+    | 'paymentsCountPerYear' | 'totalCost' | 'totalInterest' | 'totalFees' | 'totalInsurance' | 'payments'> {
+
+    private _parts: LoanInterface[];
+
+    constructor(parts: LoanInterface[] = []) {
+        this._parts = parts.slice();
+    }
+
+    /**
+     * Sets or gets the loan parts.
+     */
+    get parts(): LoanInterface[] {
+        return this._parts.slice();
+    }
+
+    set parts(parts: LoanInterface[]) {
+        this._parts = parts.slice();
+    }
+
+    /**
+     * Total amount of the loan parts.
+     */
+    get amount(): number {
+        return this._sum(part => part.amount);
+    }
+
+    /**
+     * Repayment frequency of the loan parts,
+     * or 'monthly' if the parts are repaid with different frequencies.
+     */
+    get repaymentFrequency(): RepaymentFrequency {
+        const frequencies = this._parts.map(part => part.repaymentFrequency);
+        return frequencies.length && frequencies.every(f => f === frequencies[0]) ? frequencies[0] : 'monthly';
+    }
+
+    get paymentsCountPerYear(): number {
+        const frequency = this.repaymentFrequency;
+        const part = this._parts.filter(p => p.repaymentFrequency === frequency)[0];
+        return part ? part.paymentsCountPerYear : 12;
+    }
+
+    /**
+     * Sum of the loan part repayments, converted to the repayment frequency (above)
+     * for the parts repaid with other frequencies.
+     */
+    get repaymentAmount(): number {
+        const ppy = this.paymentsCountPerYear;
+        return this._sum(part => part.paymentsCountPerYear === ppy
+            ? part.repaymentAmount : part.repaymentAmount * part.paymentsCountPerYear / ppy);
+    }
+
+    get totalCost(): number {
+        return this._sum(part => part.totalCost);
+    }
+
+    get totalInterest(): number {
+        return this._sum(part => part.totalInterest);
+    }
+
+    get totalFees(): number {
+        return this._sum(part => part.totalFees);
+    }
+
+    get totalInsurance(): number {
+        return this._sum(part => part.totalInsurance);
+    }
+
+    /**
+     * Combined payment schedule, with a payment for each date any of the parts is repaid on.
+     * Amounts are summed up for the parts repaid on the date, balances for all parts,
+     * the rate is the average of the part rates weighted by their balances before the repayment.
+     */
+    get payments(): LoanPayment[] {
+        const schedules = this._parts.map(part => part.payments);
+        const states = schedules.map((schedule, i) => ({
+            index: 0,
+            balance: schedule.length ? schedule[0].balance + schedule[0].principal - schedule[0].redraw : 0,
+            rate: this._parts[i].interestRate,
+            offsetBalance: this._parts[i].offsetBalance,
+            availableRedraw: 0
+        }));
+        const times: number[] = [];
+        for (const schedule of schedules) {
+            for (const payment of schedule) {
+                times.push(payment.date.getTime());
+            }
+        }
+        times.sort((a, b) => a - b);
+
+        const payments: LoanPayment[] = [];
+        for (let t = 0; t < times.length; ++t) {
+            const time = times[t];
+            if (t > 0 && times[t - 1] === time) {
+                continue;
+            }
+            const merged: LoanPayment = {
+                amount: 0,
+                principal: 0,
+                interest: 0,
+                balance: 0,
+                rate: 0,
+                repayment: 0,
+                date: new Date(time),
+                extra: 0,
+                offsetBalance: 0,
+                fees: 0,
+                insurance: 0,
+                propertyTax: 0,
+                homeInsurance: 0,
+                hoaDues: 0,
+                balloon: 0,
+                phase: 'amortising',
+                redraw: 0,
+                availableRedraw: 0
+            };
+            const phases: RepaymentPhase[] = [];
+            let weightedRate = 0;
+            let weights = 0;
+            schedules.forEach((schedule, i) => {
+                const state = states[i];
+                let rate = state.rate;
+                const opening = state.balance;
+                for (; state.index < schedule.length && schedule[state.index].date.getTime() === time; ++state.index) {
+                    const payment = schedule[state.index];
+                    merged.amount += payment.amount;
+                    merged.principal += payment.principal;
+                    merged.interest += payment.interest;
+                    merged.repayment += payment.repayment;
+                    merged.extra += payment.extra;
+                    merged.fees += payment.fees;
+                    merged.insurance += payment.insurance;
+                    merged.propertyTax += payment.propertyTax;
+                    merged.homeInsurance += payment.homeInsurance;
+                    merged.hoaDues += payment.hoaDues;
+                    merged.balloon += payment.balloon;
+                    merged.redraw += payment.redraw;
+                    phases.push(payment.phase);
+                    rate = payment.rate;
+                    state.balance = payment.balance;
+                    state.offsetBalance = payment.offsetBalance;
+                    state.availableRedraw = payment.availableRedraw;
+                }
+                state.rate = rate;
+                if (opening > 0) {
+                    weightedRate += rate * opening;
+                    weights += opening;
+                }
+                merged.balance += state.balance;
+                merged.offsetBalance += state.offsetBalance;
+                merged.availableRedraw += state.availableRedraw;
+            });
+            merged.rate = weights > 0 ? weightedRate / weights : states.length ? states[0].rate : 0;
+            if (phases.every(phase => phase === phases[0])) {
+                merged.phase = phases[0];
+            }
+            payments.push(merged);
+        }
+        return payments;
+    }
+
+    private _sum(value: (part: LoanInterface) => number): number {
+        return this._parts.reduce((sum, part) => sum + value(part), 0);
+    }
+}
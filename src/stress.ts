@@ -0,0 +1,108 @@
+import {LoanInterface} from './index';
+
+export interface StressTestOptions {
+    /**
+     * Interest rate shocks to test, percentage points added to all rates of the loan,
+     * e.g. [1, 2, 3] for "what if rates rise 1/2/3%" or [3] for the serviceability buffer.
+     */
+    rateShocks: number[];
+
+    /**
+     * Loan terms in years for the rate × term grid.
+     * Default is the loan term only.
+     */
+    years?: number[];
+}
+
+export interface StressScenario {
+    /**
+     * Interest rate shock, percentage points, 0 for the base case.
+     */
+    rateShock: number;
+
+    /**
+     * Loan term in months.
+     */
+    months: number;
+
+    /**
+     * Initial interest rate with the shock applied, 0-100.
+     */
+    interestRate: number;
+
+    /**
+     * Regular repayment (after the interest only period), excluding extra payments.
+     */
+    repaymentAmount: number;
+
+    totalInterest: number;
+    totalCost: number;
+
+    /**
+     * Changes compared to the unshocked loan with the same term, positive if the scenario costs more.
+     * For the bases of the grid terms, compared to the loan as is.
+     */
+    repaymentChange: number;
+    totalInterestChange: number;
+    totalCostChange: number;
+}
+
+export interface StressTestResult {
+    /**
+     * The loan as is.
+     */
+    base: StressScenario;
+
+    /**
+     * The loan without a rate shock for each loan term of the grid,
+     * the changes of the scenarios with that term are measured against it.
+     */
+    bases: StressScenario[];
+
+    /**
+     * Scenario for each rate shock, for each loan term of the grid
+     * (all rate shocks for the first term, then for the second one etc.).
+     */
+    scenarios: StressScenario[];
+}
+
+/**
+ * Calculates the loan with the interest rates shocked, e.g. to assess the borrower
+ * at the current rate plus the serviceability buffer.
+ * The shocks apply to all interest rates the loan is calculated with,
+ * including ARM adjusted rates and rate changes.
+ * @see LoanInterface#interestRateShock
+ */
+export function stressTest(loan: LoanInterface, options: StressTestOptions): StressTestResult {
+    const base = calcScenario(loan, 0, null);
+    const terms = options.years && options.years.length ? options.years.map(years => years * 12) : [loan.months];
+    const bases: StressScenario[] = [];
+    const scenarios: StressScenario[] = [];
+    for (const months of terms) {
+        const term = loan.clone();
+        term.months = months;
+        const termBase = months === loan.months ? base : calcScenario(term, 0, base);
+        bases.push(termBase);
+        for (const shock of options.rateShocks) {
+            const copy = term.clone();
+            copy.interestRateShock = loan.interestRateShock + shock;
+            scenarios.push(calcScenario(copy, shock, termBase));
+        }
+    }
+    return {base: base, bases: bases, scenarios: scenarios};
+}
+
+function calcScenario(loan: LoanInterface, shock: number, base: StressScenario | null): StressScenario {
+    const summary = loan.summary();
+    return {
+        rateShock: shock,
+        months: loan.months,
+        interestRate: Math.max(loan.interestRate + loan.interestRateShock, 0),
+        repaymentAmount: summary.repaymentAmount,
+        totalInterest: summary.totalInterest,
+        totalCost: summary.totalCost,
+        repaymentChange: base ? summary.repaymentAmount - base.repaymentAmount : 0,
+        totalInterestChange: base ? summary.totalInterest - base.totalInterest : 0,
+        totalCostChange: base ? summary.totalCost - base.totalCost : 0
+    };
+}
@@ -0,0 +1,202 @@
+import {
+    AmortisationMethod,
+    DayCountConvention,
+    InterestAccrual,
+    LoanInterface,
+    PrepaymentHandling,
+    RepaymentEvent,
+    RepaymentFrequency,
+    RepaymentHoliday,
+    RepaymentHolidayHandling
+} from './index';
+
+/**
+ * Allowed values of the loan options, e.g. for the selects.
+ */
+export const REPAYMENT_FREQUENCIES: RepaymentFrequency[] = ['yearly', 'quarterly', 'monthly', 'fortnightly', 'weekly'];
+export const DAY_COUNT_CONVENTIONS: DayCountConvention[] = ['none', 'actual/365', 'actual/360', '30/360'];
+export const INTEREST_ACCRUALS: InterestAccrual[] = ['period', 'daily'];
+export const PREPAYMENT_HANDLINGS: PrepaymentHandling[] = ['reduce-term', 'recast'];
+export const AMORTISATION_METHODS: AmortisationMethod[] = ['annuity', 'linear', 'flat', 'rule-of-78'];
+export const REPAYMENT_HOLIDAY_TYPES: Array<RepaymentHoliday['type']> = ['pause', 'interest-only'];
+export const REPAYMENT_HOLIDAY_HANDLINGS: RepaymentHolidayHandling[] = ['recast', 'extend-term'];
+
+/**
+ * Validation issue codes:
+ * 'required' - the value is not set (0),
+ * 'invalid-number' - NaN or infinite number,
+ * 'invalid-date' - invalid Date,
+ * 'invalid-value' - the value is not one of the allowed ones, e.g. unknown repayment frequency,
+ * 'negative' - the value is below 0,
+ * 'out-of-range' - the value is out of the allowed range,
+ * 'exceeds-term' - the period is longer than the loan term,
+ * 'exceeds-amount' - the amount is larger than the loan amount,
+ * 'before-start' - the date is before the loan start date.
+ */
+export type LoanValidationCode = 'required' | 'invalid-number' | 'invalid-date' | 'invalid-value' | 'negative'
+    | 'out-of-range' | 'exceeds-term' | 'exceeds-amount' | 'before-start';
+
+export interface LoanValidationIssue {
+    /**
+     * Loan option with the invalid value, with the path for the event options,
+     * e.g. 'extraPaymentEvents[0].amount'.
+     */
+    field: string;
+
+    code: LoanValidationCode;
+
+    message: string;
+}
+
+/**
+ * Thrown by the loan in the strict validation mode.
+ */
+export class LoanValidationError extends Error {
+
+    constructor(readonly issues: LoanValidationIssue[]) {
+        super('Invalid loan: ' + issues.map(issue => issue.message).join('; '));
+        Object.setPrototypeOf(this, LoanValidationError.prototype);
+        this.name = 'LoanValidationError';
+    }
+}
+
+const NON_NEGATIVE_OPTIONS: Array<keyof LoanInterface> = [
+    'interestRate', 'extraPayment', 'interestOnlyRepaymentCount', 'balloonAmount',
+    'graduatedPaymentRate', 'graduatedPaymentYears', 'establishmentFee', 'monthlyFee', 'annualFee', 'dischargeFee',
+    'propertyValue', 'lmiPremium', 'pmiRate', 'propertyTax', 'homeInsurance', 'hoaDues', 'offsetBalance',
+    'armFixedRateForRepaymentCount', 'armInitialVariableRate', 'armRepaymentCountBetweenAdjustments',
+    'armExpectedAdjustmentRate', 'armMaximumInterestRate'
+];
+
+/**
+ * Options with any finite number allowed, e.g. decreasing growth rates.
+ */
+const NUMBER_OPTIONS: Array<keyof LoanInterface> = ['propertyTaxGrowthRate', 'homeInsuranceGrowthRate',
+    'interestRateShock'];
+
+/**
+ * Validates the loan options.
+ * @param valuesOnly Whether to check only the values by themselves,
+ * not the missing values and values conflicting with each other.
+ * @return Issues found, empty if the loan is valid.
+ */
+export function validateLoan(loan: LoanInterface, valuesOnly = false): LoanValidationIssue[] {
+    const issues: LoanValidationIssue[] = [];
+    checkOneOf(loan.repaymentFrequency, REPAYMENT_FREQUENCIES, 'repaymentFrequency', issues);
+    checkOneOf(loan.dayCountConvention, DAY_COUNT_CONVENTIONS, 'dayCountConvention', issues);
+    checkOneOf(loan.interestAccrual, INTEREST_ACCRUALS, 'interestAccrual', issues);
+    checkOneOf(loan.prepaymentHandling, PREPAYMENT_HANDLINGS, 'prepaymentHandling', issues);
+    checkOneOf(loan.amortisationMethod, AMORTISATION_METHODS, 'amortisationMethod', issues);
+    checkOneOf(loan.repaymentHolidayHandling, REPAYMENT_HOLIDAY_HANDLINGS, 'repaymentHolidayHandling', issues);
+    loan.repaymentHolidays.forEach((holiday, i) =>
+        checkOneOf(holiday.type, REPAYMENT_HOLIDAY_TYPES, `repaymentHolidays[${i}].type`, issues));
+    if (issues.length) {
+        // other values depend on these ones, e.g. the repayments count on the repayment frequency
+        return issues;
+    }
+
+    checkNumber(loan.amount, 'amount', issues, 0);
+    checkNumber(loan.months, 'months', issues, 0);
+    for (const field of NON_NEGATIVE_OPTIONS) {
+        checkNumber(loan[field] as number, field, issues, 0);
+    }
+    for (const field of NUMBER_OPTIONS) {
+        checkNumber(loan[field] as number, field, issues);
+    }
+    checkNumber(loan.balloonPercentage, 'balloonPercentage', issues, 0);
+    checkNumber(loan.pmiCancellationLvr, 'pmiCancellationLvr', issues, 0, 100);
+    checkNumber(loan.rounding, 'rounding', issues, 0, 15);
+    if (loan.negativeAmortisationCap) {
+        checkNumber(loan.negativeAmortisationCap, 'negativeAmortisationCap', issues, 100, 1000);
+    }
+    checkEvents(loan.extraPaymentEvents, 'extraPaymentEvents', issues);
+    checkEvents(loan.redrawEvents, 'redrawEvents', issues);
+    checkEvents(loan.offsetTransactions, 'offsetTransactions', issues, true);
+    checkEvents(loan.repaymentHolidays, 'repaymentHolidays', issues);
+    loan.rateChanges.forEach((change, i) => {
+        checkStart(change.start, `rateChanges[${i}].start`, issues);
+        checkNumber(change.rate, `rateChanges[${i}].rate`, issues, 0);
+    });
+    loan.recastPoints.forEach((point, i) => checkStart(point, `recastPoints[${i}]`, issues));
+    checkDate(loan.startDate, 'startDate', issues);
+    checkDate(loan.firstPaymentDate, 'firstPaymentDate', issues);
+    if (valuesOnly || issues.length) {
+        return issues;
+    }
+
+    // missing and conflicting values
+    if (!loan.amount) {
+        addIssue(issues, 'amount', 'required', 'the loan amount is not set');
+    }
+    if (!loan.months) {
+        addIssue(issues, 'months', 'required', 'the loan term is not set');
+    }
+    const term = loan.paymentsCountTotal;
+    if (loan.months && loan.interestOnlyRepaymentCount > term) {
+        addIssue(issues, 'interestOnlyRepaymentCount', 'exceeds-term',
+            'the interest only period is longer than the loan term');
+    }
+    const arm = loan.armRateAdjustmentStrategy
+        || (loan.armInitialVariableRate && loan.armExpectedAdjustmentRate && loan.armMaximumInterestRate);
+    if (loan.months && arm && loan.armFixedRateForRepaymentCount >= term) {
+        addIssue(issues, 'armFixedRateForRepaymentCount', 'exceeds-term',
+            'the ARM fixed rate period is not shorter than the loan term');
+    }
+    if (loan.amount && loan.balloonAmount > loan.amount) {
+        addIssue(issues, 'balloonAmount', 'exceeds-amount', 'the balloon is larger than the loan amount');
+    }
+    if (loan.firstPaymentDate < loan.startDate) {
+        addIssue(issues, 'firstPaymentDate', 'before-start', 'the first repayment is due before the loan start date');
+    }
+    return issues;
+}
+
+function checkEvents(events: Array<RepaymentEvent & { amount?: number }>, field: string,
+                     issues: LoanValidationIssue[], signed = false) {
+    events.forEach((event, i) => {
+        checkStart(event.start, `${field}[${i}].start`, issues);
+        if (event.end !== undefined) {
+            checkStart(event.end, `${field}[${i}].end`, issues);
+        }
+        if (event.amount !== undefined) {
+            checkNumber(event.amount, `${field}[${i}].amount`, issues, signed ? undefined : 0);
+        }
+    });
+}
+
+function checkStart(start: number | Date, field: string, issues: LoanValidationIssue[]) {
+    if (start instanceof Date) {
+        checkDate(start, field, issues);
+    } else {
+        checkNumber(start, field, issues, 0);
+    }
+}
+
+/**
+ * @param min Min value, a negative value is reported as 'negative' if it is 0 and there is no max value.
+ */
+function checkNumber(value: number, field: string, issues: LoanValidationIssue[], min?: number, max?: number) {
+    if (typeof value !== 'number' || !isFinite(value)) {
+        addIssue(issues, field, 'invalid-number', 'expected a finite number');
+    } else if (min === 0 && max === undefined && value < 0) {
+        addIssue(issues, field, 'negative', 'expected a non-negative number');
+    } else if ((min !== undefined && value < min) || (max !== undefined && value > max)) {
+        addIssue(issues, field, 'out-of-range', `expected a number from ${min} to ${max}`);
+    }
+}
+
+function checkOneOf(value: string, values: string[], field: string, issues: LoanValidationIssue[]) {
+    if (values.indexOf(value) < 0) {
+        addIssue(issues, field, 'invalid-value', `expected one of ${values.join(', ')}`);
+    }
+}
+
+function checkDate(date: Date, field: string, issues: LoanValidationIssue[]) {
+    if (!(date instanceof Date) || isNaN(date.getTime())) {
+        addIssue(issues, field, 'invalid-date', 'expected a valid date');
+    }
+}
+
+function addIssue(issues: LoanValidationIssue[], field: string, code: LoanValidationCode, message: string) {
+    issues.push({field: field, code: code, message: `${field}: ${message}`});
+}
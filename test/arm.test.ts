@@ -0,0 +1,81 @@
+import {
+    IndexMarginRateAdjustment,
+    Loan,
+    RateAdjustmentContext,
+    RateAdjustmentStrategy,
+    ScheduledRateAdjustment,
+    StepRateAdjustment
+} from '../src';
+
+function adjustments(strategy: RateAdjustmentStrategy, initialRate: number, count: number): number[] {
+    const rates: number[] = [];
+    let rate = initialRate;
+    for (let i = 0; i < count; ++i) {
+        const context: RateAdjustmentContext = {
+            adjustment: i,
+            repayment: 60 + i * 12,
+            date: new Date(2030 + i, 0, 1),
+            currentRate: rate,
+            initialRate: initialRate
+        };
+        rate = strategy.adjust(context);
+        rates.push(+rate.toFixed(4));
+    }
+    return rates;
+}
+
+test('Step rate adjustment', () => {
+    expect(adjustments(new StepRateAdjustment(1.86, 0.25, 2.5), 2.56, 5))
+        .toEqual([1.86, 2.11, 2.36, 2.5, 2.5]);
+});
+
+test('Index + margin rate adjustment with 2/1/5 caps', () => {
+    const caps = {margin: 2.75, initialCap: 2, periodicCap: 1, lifetimeCap: 5};
+
+    // rising index, limited by the initial, periodic and lifetime caps
+    expect(adjustments(new IndexMarginRateAdjustment({...caps, index: 5.5}), 3, 6))
+        .toEqual([5, 6, 7, 8, 8, 8]);
+
+    // falling index, limited by the periodic cap and the floor
+    expect(adjustments(new IndexMarginRateAdjustment({...caps, index: [2, 0.5, 0]}), 6, 5))
+        .toEqual([4.75, 3.75, 2.75, 2.75, 2.75]);
+
+    // custom floor, no caps
+    expect(adjustments(new IndexMarginRateAdjustment({index: [4, 0], margin: 2, floor: 3}), 6, 2))
+        .toEqual([6, 3]);
+});
+
+test('Scheduled rate adjustment', () => {
+    expect(adjustments(new ScheduledRateAdjustment([4, 4.5, 3.9]), 3, 5))
+        .toEqual([4, 4.5, 3.9, 3.9, 3.9]);
+    expect(adjustments(new ScheduledRateAdjustment([]), 3, 2))
+        .toEqual([3, 3]);
+});
+
+test('ARM re-amortised with the adjusted rate', () => {
+    const loan = new Loan({
+        amount: 500_000,
+        years: 30,
+        interestRate: 6,
+        startDate: new Date(2024, 0, 1),
+        armFixedRateForYears: 5,
+        armMonthsBetweenAdjustments: 12,
+        armRateAdjustmentStrategy: new IndexMarginRateAdjustment(
+            {index: 8, margin: 2.75, initialCap: 2, periodicCap: 1, lifetimeCap: 5})
+    });
+    const payments = loan.payments;
+    expect(payments.length).toEqual(360);
+    expect(payments[60].rate).toEqual(8);
+    expect(payments[60].amount).toBeGreaterThan(payments[59].amount);
+    expect(payments[60].principal).toBeGreaterThan(0);
+    expect(payments[72].rate).toEqual(9);
+    expect(payments[72].amount).toBeGreaterThan(payments[71].amount);
+
+    // the last one is an ordinary repayment paying off the loan
+    const last = payments[359];
+    expect(last.rate).toEqual(10.75);
+    expect(last.repayment.toFixed(2)).toEqual(payments[358].repayment.toFixed(2));
+    expect(last.amount).toBeLessThanOrEqual(last.repayment);
+    expect(last.balance).toEqual(0);
+    expect(last.date).not.toEqual(payments[358].date);
+});
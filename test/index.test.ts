@@ -1,4 +1,4 @@
-import {Loan, RepaymentFrequency} from '../src';
+import {DayCountConvention, Loan, LoanPayment, RepaymentFrequency, ScheduledRateAdjustment, solveInterestRate} from '../src';
 
 // Resources used for reference numbers:
 // https://www.commbank.com.au/digital/home-buying/calculator/home-loan-repayments
@@ -314,6 +314,751 @@ test('Should override armRepaymentCountBetweenAdjustments with armMonthsBetweenA
     expect(loan.armRepaymentCountBetweenAdjustments).toEqual(12);
 });
 
+test('Payment dates (monthly, month-end rollover)', () => {
+
+    const loan = newLoan(100_000, 1, 5);
+    loan.startDate = new Date(2023, 11, 31);
+    expect(loan.firstPaymentDate).toEqual(new Date(2024, 0, 31));
+    expect(loan.payments.slice(0, 4).map(p => p.date)).toEqual([
+        new Date(2024, 0, 31),
+        new Date(2024, 1, 29),
+        new Date(2024, 2, 31),
+        new Date(2024, 3, 30)
+    ]);
+
+    // the end of February isn't the end of month for the 29th and 30th
+    loan.startDate = new Date(2023, 0, 29);
+    expect(loan.payments.slice(0, 4).map(p => p.date)).toEqual([
+        new Date(2023, 1, 28),
+        new Date(2023, 2, 29),
+        new Date(2023, 3, 29),
+        new Date(2023, 4, 29)
+    ]);
+    loan.startDate = new Date(2024, 0, 30);
+    expect(loan.payments.slice(0, 3).map(p => p.date)).toEqual([
+        new Date(2024, 1, 29),
+        new Date(2024, 2, 30),
+        new Date(2024, 3, 30)
+    ]);
+    expect(loan.payments[11].date).toEqual(new Date(2025, 0, 30));
+
+    loan.firstPaymentDate = new Date(2024, 0, 30);
+    expect(loan.payments.slice(0, 3).map(p => p.date)).toEqual([
+        new Date(2024, 0, 30),
+        new Date(2024, 1, 29),
+        new Date(2024, 2, 30)
+    ]);
+
+    loan.repaymentFrequency = 'quarterly';
+    expect(loan.payments.slice(0, 2).map(p => p.date)).toEqual([
+        new Date(2024, 0, 30),
+        new Date(2024, 3, 30)
+    ]);
+});
+
+test('Payment dates (weekly and fortnightly)', () => {
+
+    const loan = newLoan(100_000, 1, 5);
+    loan.repaymentFrequency = 'fortnightly';
+    loan.startDate = new Date(2024, 0, 1);
+    expect(loan.payments.slice(0, 3).map(p => p.date)).toEqual([
+        new Date(2024, 0, 15),
+        new Date(2024, 0, 29),
+        new Date(2024, 1, 12)
+    ]);
+
+    loan.repaymentFrequency = 'weekly';
+    expect(loan.payments.slice(0, 3).map(p => p.date)).toEqual([
+        new Date(2024, 0, 8),
+        new Date(2024, 0, 15),
+        new Date(2024, 0, 22)
+    ]);
+});
+
+test('Day count conventions', () => {
+
+    const loan = newLoan(100_000, 1, 5);
+    loan.startDate = new Date(2024, 0, 1);
+    expect(loan.payments[0].interest.toFixed(2)).toEqual('416.67');
+
+    loan.dayCountConvention = 'actual/365';
+    expect(loan.payments[0].interest.toFixed(2)).toEqual('424.66');
+    expect(loan.payments[1].interest).toBeLessThan(loan.payments[0].interest); // 29 days in Feb 2024
+
+    loan.dayCountConvention = 'actual/360';
+    expect(loan.payments[0].interest.toFixed(2)).toEqual('430.56');
+
+    loan.dayCountConvention = '30/360';
+    expect(loan.payments[0].interest.toFixed(2)).toEqual('416.67');
+
+    const copy = loan.clone();
+    expect(copy.dayCountConvention).toEqual('30/360');
+    expect(copy.startDate).toEqual(loan.startDate);
+    expect(copy.totalInterest).toEqual(loan.totalInterest);
+});
+
+test('Balance left with the actual day count paid with the last repayment', () => {
+
+    const loan = newLoan(500_000, 30, 6);
+    loan.startDate = new Date(2022, 0, 1);
+    for (const convention of ['actual/365', 'actual/360'] as DayCountConvention[]) {
+        loan.dayCountConvention = convention;
+        const payments = loan.payments;
+        expect(payments.length).toEqual(360);
+        expect(payments[359].balance).toEqual(0);
+        expect(payments[359].date).toEqual(new Date(2052, 0, 1));
+        expect(payments[359].date).not.toEqual(payments[358].date);
+        expect(payments[359].amount).toBeGreaterThan(payments[358].amount);
+        expect(payments[359].repayment).toEqual(payments[359].amount);
+        expect(payments[359].availableRedraw).toEqual(0);
+    }
+
+    // interest only for the whole term
+    const interestOnly = newLoan(30_000, 30, 6);
+    interestOnly.interestOnlyYears = 30;
+    const last = interestOnly.payments[359];
+    expect(interestOnly.payments.length).toEqual(360);
+    expect(last.principal).toEqual(30_000);
+    expect(last.balance).toEqual(0);
+    expect(last.availableRedraw).toEqual(0);
+    expect(last.phase).toEqual('amortising');
+    expect(interestOnly.payments[358].phase).toEqual('interest-only');
+});
+
+test('One-off lump sum payment', () => {
+
+    const loan = newLoan(800_000, 5, 2.56);
+    const repayments = loan.payments.length;
+    const interest = loan.totalInterest;
+
+    loan.extraPaymentEvents = [{amount: 20_000, start: 24}];
+    expect(loan.payments[23].extra).toEqual(0);
+    expect(loan.payments[24].extra).toEqual(20_000);
+    expect(loan.payments[24].amount.toFixed(0)).toEqual('34219');
+    expect(loan.payments[25].extra).toEqual(0);
+    expect(loan.payments.length).toBeLessThan(repayments);
+    expect(loan.totalInterest).toBeLessThan(interest);
+
+    const byDate = loan.clone();
+    byDate.startDate = new Date(2024, 0, 1);
+    byDate.extraPaymentEvents = [{amount: 20_000, start: new Date(2026, 0, 15)}];
+    expect(byDate.payments[23].extra).toEqual(0);
+    expect(byDate.payments[24].extra).toEqual(20_000);
+});
+
+test('Recurring extra payments', () => {
+
+    const loan = newLoan(800_000, 5, 2.56);
+    loan.extraPaymentEvents = [{amount: 1000, start: 12, end: 23}];
+    expect(loan.payments.map(p => p.extra).filter(e => e > 0).length).toEqual(12);
+    expect(loan.payments[11].extra).toEqual(0);
+    expect(loan.payments[12].extra).toEqual(1000);
+    expect(loan.payments[23].extra).toEqual(1000);
+    expect(loan.payments[24].extra).toEqual(0);
+
+    // same as the constant extra payment when recurring till the end
+    loan.extraPaymentEvents = [{amount: 1000, start: 0, recurring: true}];
+    const copy = loan.clone();
+    copy.extraPaymentEvents = [];
+    copy.extraPayment = 1000;
+    expect(loan.payments).toEqual(copy.payments);
+    expect(loan.clone().extraPaymentEvents).toEqual(loan.extraPaymentEvents);
+});
+
+test('Offset account', () => {
+
+    const loan = newLoan(800_000, 25, 2.56);
+    loan.offsetBalance = 100_000;
+    expect(loan.payments[0].interest.toFixed(2)).toEqual((700_000 * 0.0256 / 12).toFixed(2));
+    expect(loan.payments[0].principal.toFixed(2)).toEqual((loan.repaymentAmount - loan.payments[0].interest).toFixed(2));
+    expect(loan.payments[0].offsetBalance).toEqual(100_000);
+    expect(loan.offsetInterestSaved).toBeGreaterThan(0);
+    expect(loan.offsetRepaymentsSaved).toBeGreaterThan(0);
+
+    const copy = loan.clone();
+    copy.offsetBalance = 0;
+    expect((copy.totalInterest - loan.totalInterest).toFixed(2)).toEqual(loan.offsetInterestSaved.toFixed(2));
+    expect(copy.payments.length - loan.payments.length).toEqual(loan.offsetRepaymentsSaved);
+    expect(copy.offsetInterestSaved).toEqual(0);
+    expect(copy.payments[0].offsetBalance).toEqual(0);
+});
+
+test('Offset account deposits and withdrawals', () => {
+
+    const loan = newLoan(800_000, 25, 2.56);
+    loan.offsetTransactions = [
+        {amount: 50_000, start: 12},
+        {amount: 1_000, start: 24, end: 35},
+        {amount: -100_000, start: 48}
+    ];
+    expect(loan.payments[11].offsetBalance).toEqual(0);
+    expect(loan.payments[12].offsetBalance).toEqual(50_000);
+    expect(loan.payments[13].interest.toFixed(2))
+        .toEqual(((loan.payments[12].balance - 50_000) * 0.0256 / 12).toFixed(2));
+    expect(loan.payments[35].offsetBalance).toEqual(62_000);
+    expect(loan.payments[47].offsetBalance).toEqual(62_000);
+    expect(loan.payments[48].offsetBalance).toEqual(0);
+    expect(loan.offsetInterestSaved).toBeGreaterThan(0);
+});
+
+test('Redraw', () => {
+
+    const loan = newLoan(800_000, 25, 2.56);
+    expect(loan.payments.map(p => p.availableRedraw).filter(r => r > 0.01)).toEqual([]);
+
+    loan.extraPayment = 1000;
+    expect(loan.payments[0].availableRedraw.toFixed(2)).toEqual('1000.00');
+    expect(loan.payments[11].availableRedraw).toBeGreaterThan(12_000);
+    expect(loan.payments[11].availableRedraw).toBeLessThan(12_200);
+
+    const withoutRedraw = loan.clone();
+    loan.redrawEvents = [{amount: 10_000, start: 11}, {amount: 100_000, start: 23}];
+    expect(loan.payments[11].redraw).toEqual(10_000);
+    expect(loan.payments[11].balance.toFixed(2))
+        .toEqual((withoutRedraw.payments[11].balance + 10_000).toFixed(2));
+    expect(loan.payments[11].availableRedraw.toFixed(2))
+        .toEqual((withoutRedraw.payments[11].availableRedraw - 10_000).toFixed(2));
+
+    // can't redraw more than paid ahead
+    expect(loan.payments[23].redraw).toBeLessThan(20_000);
+    expect(loan.payments[23].availableRedraw).toEqual(0);
+    expect(loan.totalInterest).toBeGreaterThan(withoutRedraw.totalInterest);
+    expect(loan.payments.length).toBeGreaterThan(withoutRedraw.payments.length);
+    expect(loan.clone().redrawEvents).toEqual(loan.redrawEvents);
+});
+
+test('ARM rate adjustments', () => {
+
+    const loan = newLoan(800_000, 25, 2.56);
+    loan.armInitialVariableRate = 1.86;
+    loan.armMaximumInterestRate = 2.5;
+    loan.armExpectedAdjustmentRate = 0.25;
+    loan.armMonthsBetweenAdjustments = 12;
+    loan.armFixedRateForYears = 1;
+    expect(loan.payments[0].rate).toEqual(2.56);
+    expect(loan.payments[11].rate).toEqual(2.56);
+    expect(loan.payments[12].rate).toEqual(1.86);
+    expect(loan.payments[12].interest.toFixed(2))
+        .toEqual((loan.payments[11].balance * 0.0186 / 12).toFixed(2));
+    expect(loan.payments[23].rate).toEqual(1.86);
+    expect(loan.payments[24].rate.toFixed(2)).toEqual('2.11');
+    expect(loan.payments[48].rate).toEqual(2.5);
+    expect(loan.payments[loan.payments.length - 1].rate).toEqual(2.5);
+
+    const copy = loan.clone();
+    copy.armRateAdjustmentStrategy = new ScheduledRateAdjustment([3, 4]);
+    expect(copy.payments[11].rate).toEqual(2.56);
+    expect(copy.payments[12].rate).toEqual(3);
+    expect(copy.payments[24].rate).toEqual(4);
+    expect(copy.totalInterest).toBeGreaterThan(loan.totalInterest);
+    expect(copy.clone().armRateAdjustmentStrategy).toBe(copy.armRateAdjustmentStrategy);
+});
+
+test('Variable rate changes', () => {
+
+    const loan = newLoan(500_000, 25, 5);
+    const repayment = loan.repaymentAmount;
+    loan.rateChanges = [{start: 12, rate: 6}, {start: 24, rate: 5.5}];
+    expect(loan.payments[11].rate).toEqual(5);
+    expect(loan.payments[11].repayment).toEqual(repayment);
+    expect(loan.payments[12].rate).toEqual(6);
+    expect(loan.payments[12].repayment).toBeGreaterThan(repayment);
+    expect(loan.payments[24].rate).toEqual(5.5);
+    expect(loan.payments[24].repayment).toBeLessThan(loan.payments[12].repayment);
+    expect(loan.payments.length).toEqual(300);
+    expect(loan.payments[299].balance.toFixed(0)).toEqual('0');
+    expect(loan.payments[299].amount.toFixed(0)).toEqual(loan.payments[298].amount.toFixed(0));
+
+    const keepRepayment = loan.clone();
+    keepRepayment.keepRepaymentOnRateChange = true;
+    expect(keepRepayment.payments[24].rate).toEqual(5.5);
+    expect(keepRepayment.payments[24].repayment).toEqual(repayment);
+    expect(keepRepayment.payments.length).toBeGreaterThan(300);
+    expect(keepRepayment.payments[keepRepayment.payments.length - 1].balance).toEqual(0);
+    expect(keepRepayment.totalInterest).toBeGreaterThan(loan.totalInterest);
+});
+
+test('Kept repayment below the interest after a rate change', () => {
+
+    const loan = newLoan(500_000, 30, 6);
+    const repayment = loan.repaymentAmount;
+    loan.rateChanges = [{start: 12, rate: 12}];
+    loan.keepRepaymentOnRateChange = true;
+    expect(loan.payments[12].rate).toEqual(12);
+    expect(loan.payments[12].repayment).toBeGreaterThan(repayment);
+    expect(loan.payments[12].principal).toBeGreaterThan(0);
+    expect(loan.payments.length).toEqual(360);
+    expect(loan.payments[359].balance.toFixed(2)).toEqual('0.00');
+    expect(loan.payments[359].amount.toFixed(0)).toEqual(loan.payments[358].amount.toFixed(0));
+});
+
+test('Variable rate changes by date', () => {
+
+    const loan = newLoan(500_000, 25, 2);
+    loan.startDate = new Date(2022, 0, 1);
+    loan.rateChanges = [
+        {start: new Date(2022, 4, 4), rate: 2.25},
+        {start: new Date(2022, 5, 8), rate: 2.75},
+        {start: new Date(2022, 6, 6), rate: 3.25}
+    ];
+    expect(loan.payments.slice(3, 8).map(p => p.rate)).toEqual([2, 2.25, 2.75, 3.25, 3.25]);
+    expect(loan.payments[loan.payments.length - 1].balance).toEqual(0);
+    expect(loan.clone().rateChanges).toEqual(loan.rateChanges);
+});
+
+test('Fees', () => {
+
+    const loan = newLoan(500_000, 25, 5);
+    const totalCost = loan.totalCost;
+    loan.establishmentFee = 600;
+    loan.monthlyFee = 10;
+    loan.annualFee = 395;
+    loan.dischargeFee = 350;
+    expect(loan.payments[0].fees).toEqual(405);
+    expect(loan.payments[1].fees).toEqual(10);
+    expect(loan.payments[12].fees).toEqual(405);
+    expect(loan.payments[299].fees).toEqual(360);
+    expect(loan.totalFees.toFixed(2)).toEqual((600 + 300 * 10 + 25 * 395 + 350).toFixed(2));
+    expect((loan.totalCost - totalCost).toFixed(2)).toEqual(loan.totalFees.toFixed(2));
+    expect(loan.payments[0].amount).toEqual(loan.repaymentAmount);
+
+    loan.repaymentFrequency = 'fortnightly';
+    expect(loan.payments[0].fees.toFixed(2)).toEqual((10 * 12 / 26 + 395).toFixed(2));
+    expect(loan.clone().totalFees).toEqual(loan.totalFees);
+});
+
+test('APR and comparison rate', () => {
+
+    const loan = newLoan(150_000, 25, 5);
+    expect(loan.apr.toFixed(4)).toEqual('5.0000');
+    expect(loan.comparisonRate.toFixed(4)).toEqual('5.0000');
+
+    // the same as the rate of the loan without fees for the amount less upfront fees
+    loan.establishmentFee = 1_500;
+    const net = newLoan(150_000 - 1_500, 25, 0);
+    const rate = solveInterestRate(net, {repaymentAmount: loan.repaymentAmount}) as number;
+    expect(loan.apr.toFixed(4)).toEqual(rate.toFixed(4));
+
+    loan.monthlyFee = 10;
+    expect(loan.apr).toBeGreaterThan(rate);
+    expect(loan.comparisonRate.toFixed(6)).toEqual(loan.apr.toFixed(6));
+
+    // fees affect the comparison rate for smaller amounts more
+    loan.amount = 500_000;
+    expect(loan.comparisonRate.toFixed(6)).toEqual(loan.calcComparisonRate(150_000, 25).toFixed(6));
+    expect(loan.apr).toBeLessThan(loan.comparisonRate);
+    expect(loan.calcComparisonRate(30_000, 5)).toBeGreaterThan(loan.comparisonRate);
+});
+
+test('Exact decimal calculation', () => {
+
+    const cents = (n: number) => Math.round(n * 100);
+    const sum = (values: number[]) => values.reduce((total, value) => total + cents(value), 0);
+
+    const loan = newLoan(812_345.67, 30, 6.17);
+    loan.repaymentFrequency = 'weekly';
+    loan.extraPayment = 12.34;
+    loan.monthlyFee = 9.99;
+    loan.exactDecimal = true;
+
+    const payments = loan.payments;
+    for (const p of payments) {
+        for (const value of [p.amount, p.principal, p.interest, p.balance, p.fees]) {
+            expect(cents(value) / 100).toEqual(value);
+        }
+    }
+    expect(cents(loan.repaymentAmount) / 100).toEqual(loan.repaymentAmount);
+    expect(sum(payments.map(p => p.principal))).toEqual(cents(loan.amount));
+    expect(sum(payments.map(p => p.amount)) + sum(payments.map(p => p.fees))).toEqual(cents(loan.totalCost));
+    expect(sum(payments.map(p => p.interest))).toEqual(cents(loan.totalInterest));
+    expect(sum(payments.map(p => p.interest)) + cents(loan.amount)).toEqual(sum(payments.map(p => p.amount)));
+    expect(payments[payments.length - 1].balance).toEqual(0);
+
+    const float = loan.clone();
+    float.exactDecimal = false;
+    expect(Math.abs(float.totalInterest - loan.totalInterest)).toBeLessThan(10);
+});
+
+test('Recast after extra payments', () => {
+
+    const loan = newLoan(800_000, 5, 2.56);
+    const repayment = loan.repaymentAmount;
+    loan.extraPaymentEvents = [{amount: 20_000, start: 24}];
+    const reduceTerm = loan.clone();
+
+    loan.prepaymentHandling = 'recast';
+    expect(loan.payments.length).toEqual(60);
+    expect(loan.payments[24].repayment).toEqual(repayment);
+    expect(loan.payments[25].repayment).toBeLessThan(repayment);
+    const remaining = newLoan(loan.payments[24].balance, 0, 2.56);
+    remaining.months = 35;
+    expect(loan.payments[25].repayment).toEqual(remaining.repaymentAmount);
+    expect(loan.payments[59].balance).toEqual(0);
+    expect(loan.payments[59].amount.toFixed(0)).toEqual(loan.payments[25].repayment.toFixed(0));
+    expect(loan.totalInterest).toBeGreaterThan(reduceTerm.totalInterest);
+    expect(loan.payments[30].availableRedraw).toEqual(0);
+
+    loan.recastPoints = [36];
+    expect(loan.payments[25].repayment).toEqual(repayment);
+    expect(loan.payments[35].repayment).toEqual(repayment);
+    expect(loan.payments[36].repayment).toBeLessThan(repayment);
+    expect(loan.payments[59].balance.toFixed(2)).toEqual('0.00');
+    expect(loan.clone().recastPoints).toEqual([36]);
+});
+
+test('PMI cancelled by LVR', () => {
+
+    const loan = newLoan(450_000, 30, 6);
+    loan.propertyValue = 500_000;
+    loan.pmiRate = 0.5;
+    expect(loan.lvr).toEqual(90);
+    expect(loan.payments[0].insurance).toEqual(187.5);
+    expect(loan.payments[0].amount).toEqual(loan.repaymentAmount);
+
+    const cancelled = loan.payments.findIndex(p => p.insurance === 0);
+    expect(loan.payments[cancelled - 1].balance).toBeLessThanOrEqual(390_000);
+    expect(loan.payments[cancelled - 2].balance).toBeGreaterThan(390_000);
+    expect(loan.payments.slice(cancelled).filter(p => p.insurance > 0)).toEqual([]);
+    expect(loan.totalInsurance).toEqual(cancelled * 187.5);
+
+    const copy = loan.clone();
+    copy.pmiRate = 0;
+    expect((loan.totalCost - copy.totalCost).toFixed(2)).toEqual(loan.totalInsurance.toFixed(2));
+
+    loan.pmiCancellationLvr = 80;
+    expect(loan.payments.findIndex(p => p.insurance === 0)).toBeLessThan(cancelled);
+});
+
+test('LMI', () => {
+
+    const loan = newLoan(450_000, 30, 6);
+    loan.propertyValue = 500_000;
+    const totalCost = loan.totalCost;
+
+    loan.lmiPremium = 10_000;
+    expect(loan.totalInsurance).toEqual(10_000);
+    expect((loan.totalCost - totalCost).toFixed(2)).toEqual('10000.00');
+    expect(loan.lvr).toEqual(90);
+
+    loan.capitaliseLmi = true;
+    expect(loan.lvr).toEqual(92);
+    expect(loan.totalInsurance).toEqual(10_000);
+    expect(loan.payments.reduce((sum, p) => sum + p.principal, 0).toFixed(2)).toEqual('460000.00');
+    expect(loan.totalCost - totalCost).toBeGreaterThan(10_000);
+    expect(loan.clone().totalCost).toEqual(loan.totalCost);
+});
+
+test('Daily interest accrual', () => {
+
+    const loan = newLoan(100_000, 1, 5);
+    loan.startDate = new Date(2024, 0, 1);
+    loan.interestAccrual = 'daily';
+    expect(loan.payments[0].interest.toFixed(2)).toEqual('424.66');
+
+    // lump sum in the middle of January reduces interest from its date
+    loan.extraPaymentEvents = [{start: new Date(2024, 0, 16), amount: 10_000}];
+    expect(loan.payments[0].interest.toFixed(2)).toEqual('402.74');
+    expect(loan.payments[0].extra).toEqual(10_000);
+
+    // redraw in the middle of February adds interest from its date
+    const interest = loan.payments[1].interest;
+    loan.redrawEvents = [{start: new Date(2024, 1, 15), amount: 5_000}];
+    expect(loan.payments[1].interest.toFixed(2)).toEqual((interest + 5_000 * 0.05 * 15 / 365).toFixed(2));
+    expect(loan.payments[1].redraw).toEqual(5_000);
+
+    // events by repayment number are applied with the repayment
+    const byNumber = loan.clone();
+    byNumber.extraPaymentEvents = [{start: 0, amount: 10_000}];
+    expect(byNumber.payments[0].interest.toFixed(2)).toEqual('424.66');
+    expect(byNumber.interestAccrual).toEqual('daily');
+
+    loan.interestAccrual = 'period';
+    expect(loan.payments[0].interest.toFixed(2)).toEqual('416.67');
+});
+
+test('Balloon', () => {
+
+    const loan = newLoan(30_000, 5, 7);
+    loan.balloonPercentage = 30;
+    expect(loan.balloonAmount).toEqual(9000);
+    expect(loan.repaymentAmount.toFixed(2)).toEqual('468.33');
+
+    const payments = loan.payments;
+    expect(payments.length).toEqual(60);
+    expect(payments[59].balloon.toFixed(2)).toEqual('9000.00');
+    expect(payments[59].amount.toFixed(2)).toEqual((loan.repaymentAmount + 9000).toFixed(2));
+    expect(payments[59].balance).toEqual(0);
+    expect(payments[59].availableRedraw.toFixed(2)).toEqual('0.00');
+    expect(payments.slice(0, 59).filter(p => p.balloon > 0)).toEqual([]);
+
+    loan.balloonAmount = 9000;
+    expect(loan.balloonPercentage).toEqual(30);
+    expect(loan.clone().totalCost).toEqual(loan.totalCost);
+
+    loan.interestOnlyYears = 1;
+    expect(loan.repaymentAmount.toFixed(2)).toEqual('555.37');
+    expect(loan.payments[59].balloon.toFixed(2)).toEqual('9000.00');
+
+    loan.calculateWeeklyAndFortnightlyRepaymentsBasedOnYearlyRepayments = true;
+    for (const frequency of ['yearly', 'quarterly', 'fortnightly', 'weekly'] as RepaymentFrequency[]) {
+        loan.repaymentFrequency = frequency;
+        const last = loan.payments[loan.payments.length - 1];
+        expect(loan.payments.length).toEqual(loan.paymentsCountTotal);
+        expect(last.balloon).toBeGreaterThan(8000);
+        expect(last.balloon).toBeLessThan(9000.01);
+        expect(last.balance).toEqual(0);
+    }
+
+    // derived from the monthly repayment, paying ahead of the balloon
+    loan.calculateWeeklyAndFortnightlyRepaymentsBasedOnYearlyRepayments = false;
+    expect(loan.payments[loan.payments.length - 1].balloon).toBeLessThan(9000);
+});
+
+test('Amortisation methods', () => {
+
+    const linear = newLoan(12_000, 1, 12);
+    linear.amortisationMethod = 'linear';
+    expect(linear.repaymentAmount).toEqual(1120);
+    expect(linear.payments.map(p => p.principal)).toEqual(new Array(12).fill(1000));
+    expect(linear.payments[1].amount).toEqual(1110);
+    expect(linear.payments[11].amount).toEqual(1010);
+    expect(linear.totalInterest).toEqual(780);
+
+    const flat = newLoan(10_000, 3, 10);
+    flat.amortisationMethod = 'flat';
+    expect(flat.repaymentAmount.toFixed(2)).toEqual('361.11');
+    expect(flat.payments.length).toEqual(36);
+    expect(flat.payments[35].interest.toFixed(2)).toEqual('83.33');
+    expect(flat.totalInterest.toFixed(2)).toEqual('3000.00');
+
+    const annuity = newLoan(10_000, 1, 12);
+    const ruleOf78 = annuity.clone();
+    ruleOf78.amortisationMethod = 'rule-of-78';
+    expect(ruleOf78.repaymentAmount).toEqual(annuity.repaymentAmount);
+    const charge = ruleOf78.repaymentAmount * 12 - 10_000;
+    expect(ruleOf78.payments[0].interest.toFixed(2)).toEqual((charge * 12 / 78).toFixed(2));
+    expect(ruleOf78.payments[11].interest.toFixed(2)).toEqual((charge / 78).toFixed(2));
+    expect(ruleOf78.totalInterest.toFixed(2)).toEqual(annuity.totalInterest.toFixed(2));
+    // higher early payout
+    expect(ruleOf78.payments[5].balance).toBeGreaterThan(annuity.payments[5].balance);
+    expect(ruleOf78.clone().amortisationMethod).toEqual('rule-of-78');
+
+    ruleOf78.interestOnlyRepaymentCount = 2;
+    expect(ruleOf78.payments[0].interest).toEqual(100);
+    expect(ruleOf78.payments[2].interest.toFixed(2)).toEqual(
+        ((ruleOf78.repaymentAmount * 10 - 10_000) * 10 / 55).toFixed(2));
+    expect(ruleOf78.payments[11].balance).toEqual(0);
+});
+
+test('Repayment holidays', () => {
+
+    const loan = newLoan(300_000, 30, 6);
+    loan.startDate = new Date(2024, 0, 1);
+    const repayment = loan.repaymentAmount;
+    loan.repaymentHolidays = [{type: 'pause', start: 12, end: 17}];
+
+    const payments = loan.payments;
+    expect(payments[11].phase).toEqual('amortising');
+    expect(payments.slice(12, 18).map(p => p.phase)).toEqual(new Array(6).fill('pause'));
+    expect(payments[12].amount).toEqual(0);
+    expect(payments[12].principal).toEqual(-payments[12].interest);
+    expect(payments[12].balance.toFixed(2)).toEqual((payments[11].balance + payments[12].interest).toFixed(2));
+    expect(payments[18].phase).toEqual('amortising');
+    expect(payments[18].amount).toBeGreaterThan(repayment);
+    expect(payments.length).toEqual(360);
+    expect(payments[359].balance).toEqual(0);
+
+    loan.repaymentHolidayHandling = 'extend-term';
+    expect(loan.payments[18].amount).toEqual(repayment);
+    expect(loan.payments.length).toBeGreaterThan(360);
+
+    loan.repaymentHolidayHandling = 'recast';
+    loan.repaymentHolidays = [{type: 'interest-only', start: new Date(2030, 0, 1), end: new Date(2030, 11, 31)}];
+    const window = loan.payments.filter(p => p.phase === 'interest-only');
+    expect(window.length).toEqual(12);
+    expect(window.filter(p => p.principal !== 0)).toEqual([]);
+
+    const copy = Loan.fromJSON(JSON.stringify(loan));
+    expect(copy.repaymentHolidays).toEqual(loan.repaymentHolidays);
+    expect(copy.totalCost).toEqual(loan.totalCost);
+});
+
+test('Graduated repayments and negative amortisation', () => {
+
+    const loan = newLoan(300_000, 30, 10);
+    loan.graduatedPaymentRate = 7.5;
+    loan.graduatedPaymentYears = 5;
+    expect(loan.repaymentAmount.toFixed(2)).toEqual('2001.11');
+
+    const payments = loan.payments;
+    expect(payments[0].interest).toEqual(2500);
+    expect(payments[0].principal).toBeLessThan(0);
+    expect(payments[0].balance).toBeGreaterThan(300_000);
+    expect(payments[12].amount.toFixed(2)).toEqual((loan.repaymentAmount * 1.075).toFixed(2));
+    expect(payments[60].amount.toFixed(2)).toEqual('2872.85');
+    expect(payments[359].amount.toFixed(2)).toEqual('2872.85');
+    expect(Math.max(...payments.map(p => p.balance)) / 300_000).toBeGreaterThan(1.05);
+    expect(payments.length).toEqual(360);
+    expect(payments[359].balance).toEqual(0);
+
+    loan.negativeAmortisationCap = 105;
+    const capped = loan.payments;
+    const recast = capped.findIndex(p => p.balance >= 315_000) + 1;
+    expect(capped[recast].amount).toBeGreaterThan(capped[recast - 1].amount);
+    expect(capped.slice(recast + 1).filter(p => p.amount !== capped[recast].amount).length).toEqual(1); // last one
+    expect(capped.slice(recast).filter(p => p.balance > 315_000)).toEqual([]);
+    expect(capped.length).toEqual(360);
+    expect(loan.clone().totalCost).toEqual(loan.totalCost);
+});
+
+test('Escrow', () => {
+
+    const loan = newLoan(300_000, 30, 6);
+    const payments = loan.payments;
+    const totalCost = loan.totalCost;
+
+    loan.propertyTax = 3600;
+    loan.propertyTaxGrowthRate = 3;
+    loan.homeInsurance = 1200;
+    loan.hoaDues = 50;
+    expect(loan.payments.map(p => [p.amount, p.principal, p.interest, p.balance]))
+        .toEqual(payments.map(p => [p.amount, p.principal, p.interest, p.balance]));
+    expect(loan.totalCost).toEqual(totalCost);
+
+    expect(loan.payments[0].propertyTax).toEqual(300);
+    expect(loan.payments[11].propertyTax).toEqual(300);
+    expect(loan.payments[12].propertyTax).toEqual(309);
+    expect(loan.payments[24].propertyTax).toEqual(318.27);
+    expect(loan.payments[359].homeInsurance).toEqual(100);
+    expect(loan.payments[0].hoaDues).toEqual(50);
+    expect(loan.totalHomeInsurance).toEqual(36_000);
+    expect(loan.totalHoaDues).toEqual(18_000);
+    expect(loan.totalPropertyTax.toFixed(2))
+        .toEqual(loan.payments.reduce((sum, p) => sum + p.propertyTax, 0).toFixed(2));
+    expect(loan.totalOutlay.toFixed(2)).toEqual(
+        (totalCost + loan.totalPropertyTax + 36_000 + 18_000).toFixed(2));
+
+    loan.repaymentFrequency = 'fortnightly';
+    expect(loan.payments[0].homeInsurance).toEqual(46.15384615);
+    expect(loan.payments[0].hoaDues).toEqual(23.07692308);
+    expect(loan.clone().totalOutlay).toEqual(loan.totalOutlay);
+});
+
+test('Lazy calculation', () => {
+
+    const loan = newLoan(500_000, 30, 6);
+    loan.repaymentFrequency = 'weekly';
+    loan.dischargeFee = 350;
+    loan.extraPayment = 50;
+    loan.propertyTax = 2600;
+    const summary = loan.summary();
+    const iterator = loan.paymentsIterator();
+    loan.amount = 400_000; // the iteration is not affected
+    loan.amount = 500_000;
+
+    expect(summary).toEqual({
+        repaymentAmount: loan.repaymentAmount,
+        paymentsCount: loan.payments.length,
+        payoffDate: loan.payments[loan.payments.length - 1].date,
+        totalCost: loan.totalCost,
+        totalInterest: loan.totalInterest,
+        totalFees: loan.totalFees,
+        totalInsurance: loan.totalInsurance,
+        totalPropertyTax: loan.totalPropertyTax,
+        totalHomeInsurance: 0,
+        totalHoaDues: 0
+    });
+    expect(loan.summary()).toEqual(summary); // calculated already
+    expect(summary.paymentsCount).toBeLessThan(loan.paymentsCountTotal);
+    expect(loan.payments[summary.paymentsCount - 1].fees).toEqual(350);
+
+    const first = iterator.next();
+    expect(first.done).toBeFalsy();
+    expect(first.value).toEqual(loan.payments[0]);
+    const rest: LoanPayment[] = [];
+    for (let next = iterator.next(); !next.done; next = iterator.next()) {
+        rest.push(next.value);
+    }
+    expect(rest).toEqual(loan.payments.slice(1));
+
+    expect(new Loan().summary().paymentsCount).toEqual(0);
+    expect(new Loan().paymentsIterator().next().done).toBeTruthy();
+});
+
+test('Cached repayment', () => {
+
+    const loan = newLoan(500_000, 30, 6);
+    loan.repaymentFrequency = 'fortnightly';
+    const repayment = loan.repaymentAmount;
+    expect(loan.repaymentAmount).toEqual(repayment);
+    loan.interestRate = 7;
+    expect(loan.repaymentAmount).toBeGreaterThan(repayment);
+    loan.interestRate = 6;
+    expect(loan.repaymentAmount).toEqual(repayment);
+});
+
+test('Yearly and financial year summaries', () => {
+
+    const loan = newLoan(500_000, 30, 6);
+    loan.startDate = new Date(2024, 8, 15);
+    loan.establishmentFee = 600;
+    loan.annualFee = 395;
+    loan.extraPaymentEvents = [{start: new Date(2025, 2, 15), amount: 10_000}];
+    const payments = loan.payments;
+
+    const years = loan.yearlySummaries();
+    expect(years[0].period).toEqual(2024);
+    expect(years[0].paymentsCount).toEqual(3); // Oct - Dec
+    expect(years[0].openingBalance).toEqual(500_000);
+    expect(years[0].closingBalance).toEqual(payments[2].balance);
+    expect(years[1].openingBalance).toEqual(years[0].closingBalance);
+    expect(years[1].paymentsCount).toEqual(12);
+    expect(years[1].extra).toEqual(10_000);
+    expect(years[1].startDate).toEqual(new Date(2025, 0, 15));
+    expect(years[1].endDate).toEqual(new Date(2025, 11, 15));
+    const last = years[years.length - 1];
+    expect(last.closingBalance).toEqual(0);
+    expect(last.cumulativeInterest).toEqual(loan.totalInterest);
+    expect(last.cumulativeFees).toEqual(loan.totalFees);
+    expect(last.cumulativeCost).toEqual(loan.totalCost);
+    expect(last.cumulativePrincipal.toFixed(2)).toEqual('500000.00');
+    expect(years.reduce((sum, year) => sum + year.paymentsCount, 0)).toEqual(payments.length);
+
+    // July - June
+    const financialYears = loan.financialYearSummaries();
+    expect(financialYears[0].period).toEqual(2025);
+    expect(financialYears[0].paymentsCount).toEqual(9); // Oct 2024 - Jun 2025
+    expect(financialYears[0].interest.toFixed(2))
+        .toEqual(payments.slice(0, 9).reduce((sum, p) => sum + p.interest, 0).toFixed(2));
+    expect(financialYears[1].startDate).toEqual(new Date(2025, 6, 15));
+    expect(financialYears[1].openingBalance).toEqual(payments[8].balance);
+    expect(financialYears[financialYears.length - 1].cumulativeCost).toEqual(loan.totalCost);
+
+    // April - March
+    expect(loan.financialYearSummaries(4)[0].paymentsCount).toEqual(6);
+    expect(loan.financialYearSummaries(1)).toEqual(years);
+    expect(() => loan.financialYearSummaries(13)).toThrow(RangeError);
+});
+
+test('Period summaries', () => {
+
+    const loan = newLoan(300_000, 25, 5.5);
+    loan.repaymentFrequency = 'fortnightly';
+    loan.offsetBalance = 20_000;
+    const payments = loan.payments;
+    const periods = loan.periodSummaries(26);
+    expect(periods.length).toEqual(Math.ceil(payments.length / 26));
+    expect(periods[0].period).toEqual(0);
+    expect(periods[1].paymentsCount).toEqual(26);
+    expect(periods[1].startDate).toEqual(payments[26].date);
+    expect(periods[1].closingBalance).toEqual(payments[51].balance);
+    expect(periods[1].principal.toFixed(2)).toEqual((periods[1].openingBalance - periods[1].closingBalance).toFixed(2));
+    expect(periods[periods.length - 1].cumulativeInterest).toEqual(loan.totalInterest);
+    expect(loan.periodSummaries(1).map(period => period.amount)).toEqual(payments.map(p => p.amount));
+    expect(() => loan.periodSummaries(0)).toThrow(RangeError);
+    expect(new Loan().yearlySummaries()).toEqual([]);
+});
+
 // test('ARM options', () => {
 //
 //     // https://www.commbank.com.au/home-loans/split-loan-calculator.html
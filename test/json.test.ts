@@ -0,0 +1,119 @@
+import {IndexMarginRateAdjustment, Loan, LOAN_SCHEMA_VERSION, LoanSchemaError} from '../src';
+
+function newLoan(): Loan {
+    return new Loan({
+        amount: 800_000,
+        years: 25,
+        interestRate: 2.56,
+        repaymentFrequency: 'fortnightly',
+        interestOnlyYears: 1,
+        startDate: new Date(2024, 0, 31),
+        dayCountConvention: 'actual/365',
+        extraPaymentEvents: [{amount: 20_000, start: new Date(2026, 5, 1)}, {amount: 100, start: 52, end: 103}],
+        offsetBalance: 10_000,
+        offsetTransactions: [{amount: 500, start: 0, recurring: true}],
+        redrawEvents: [{amount: 5_000, start: 100}],
+        rateChanges: [{start: new Date(2025, 0, 1), rate: 3.1}],
+        monthlyFee: 10,
+        armFixedRateForYears: 5,
+        armMonthsBetweenAdjustments: 12,
+        armRateAdjustmentStrategy: new IndexMarginRateAdjustment({
+            index: [3.5, 3],
+            margin: 2.75,
+            initialCap: 2,
+            periodicCap: 1,
+            lifetimeCap: 5
+        })
+    });
+}
+
+test('Loan options', () => {
+
+    const loan = newLoan();
+    expect(loan.amount).toEqual(800_000);
+    expect(loan.months).toEqual(300);
+    expect(loan.interestOnlyRepaymentCount).toEqual(26);
+    expect(loan.armFixedRateForRepaymentCount).toEqual(130);
+
+    const copy = new Loan(loan.toOptions());
+    expect(copy.payments).toEqual(loan.payments);
+    expect(copy.toOptions()).toEqual(loan.toOptions());
+});
+
+test('JSON round trip', () => {
+
+    const loan = newLoan();
+    const json = JSON.stringify(loan);
+    expect(JSON.parse(json).version).toEqual(LOAN_SCHEMA_VERSION);
+    expect(JSON.parse(json).startDate).toEqual('2024-01-31');
+
+    const restored = Loan.fromJSON(json);
+    expect(restored.payments).toEqual(loan.payments);
+    expect(restored.toJSON()).toEqual(loan.toJSON());
+    expect(Loan.fromJSON(loan.toJSON()).totalCost).toEqual(loan.totalCost);
+});
+
+test('JSON validation', () => {
+
+    const json = newLoan().toJSON();
+    expect(() => Loan.fromJSON({...json, version: LOAN_SCHEMA_VERSION + 1})).toThrow(/unsupported schema version/);
+    expect(() => Loan.fromJSON('{')).toThrow(LoanSchemaError);
+
+    try {
+        Loan.fromJSON(JSON.stringify({
+            ...json,
+            amount: '800000',
+            repaymentFrequency: 'daily',
+            startDate: '2024-02-30',
+            extraPaymentEvents: [{start: 1}],
+            armRateAdjustmentStrategy: {type: 'unknown'},
+            foo: 1
+        }));
+        fail();
+    } catch (e) {
+        expect(e).toBeInstanceOf(LoanSchemaError);
+        expect(e.errors).toEqual([
+            'amount: expected a number',
+            'repaymentFrequency: expected one of yearly, quarterly, monthly, fortnightly, weekly',
+            'extraPaymentEvents[0].amount: expected a number',
+            'startDate: expected a date in the YYYY-MM-DD format',
+            'armRateAdjustmentStrategy.type: unknown strategy unknown',
+            'foo: unknown option'
+        ]);
+    }
+});
+
+test('JSON events', () => {
+
+    const loan = newLoan();
+    loan.repaymentHolidays = [{type: 'pause', start: new Date(2025, 5, 1), end: 12, recurring: true}];
+    loan.prepaymentHandling = 'recast';
+    loan.recastPoints = [24, new Date(2027, 0, 1)];
+    const json = loan.toJSON();
+    expect(json.repaymentHolidays).toEqual([{type: 'pause', start: '2025-06-01', end: 12, recurring: true}]);
+    expect(json.recastPoints).toEqual([24, '2027-01-01']);
+    expect(Loan.fromJSON(json).toOptions()).toEqual(loan.toOptions());
+
+    try {
+        Loan.fromJSON(JSON.stringify({
+            version: LOAN_SCHEMA_VERSION,
+            repaymentHolidays: [{type: 'skip', start: 1}],
+            rateChanges: [{start: '2025-01-01'}],
+            recastPoints: 1
+        }));
+        fail();
+    } catch (e) {
+        expect(e.errors).toEqual([
+            'repaymentHolidays[0].type: expected one of pause, interest-only',
+            'rateChanges[0].rate: expected a number',
+            'recastPoints: expected an array'
+        ]);
+    }
+});
+
+test('Custom ARM rate adjustment strategy can not be serialized', () => {
+
+    const loan = newLoan();
+    loan.armRateAdjustmentStrategy = {adjust: context => context.currentRate};
+    expect(() => loan.toJSON()).toThrow();
+});
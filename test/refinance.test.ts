@@ -0,0 +1,115 @@
+import {Loan, LoanPayment, refinance} from '../src';
+
+function currentLoan(): Loan {
+    return new Loan({
+        amount: 500_000,
+        years: 30,
+        interestRate: 6.5,
+        startDate: new Date(2024, 0, 1)
+    });
+}
+
+/**
+ * @return Repayment number the interest saved since the switch passes the costs with.
+ */
+function interestBreakEven(loan: Loan, payments: LoanPayment[], switchAfter: number, costs: number): number | null {
+    let saved = 0;
+    for (let i = switchAfter; i < payments.length; ++i) {
+        saved += loan.payments[i].interest - payments[i].interest;
+        if (saved - costs >= 0.01) {
+            return i;
+        }
+    }
+    return null;
+}
+
+test('Refinance to the lower rate', () => {
+
+    const loan = currentLoan();
+    const result = refinance(loan, {
+        switchAfter: 36,
+        newLoan: {years: 27, interestRate: 5.5},
+        switchingCosts: 3_000
+    });
+
+    expect(result.newLoan.amount).toEqual(loan.payments[35].balance);
+    expect(result.newLoan.startDate).toEqual(new Date(2027, 0, 1));
+    expect(result.payments.length).toEqual(360);
+    expect(result.payments.slice(0, 36)).toEqual(loan.payments.slice(0, 36));
+    expect(result.payments[36].date).toEqual(new Date(2027, 1, 1));
+    expect(result.payments[36].rate).toEqual(5.5);
+    expect(result.interestSaved).toBeGreaterThan(0);
+    expect(result.interestSaved.toFixed(2)).toEqual((loan.totalInterest - result.totalInterest).toFixed(2));
+    expect(result.totalCostSaved.toFixed(2)).toEqual((result.interestSaved - 3_000).toFixed(2));
+
+    expect(result.breakEvenPeriod).toEqual(interestBreakEven(loan, result.payments, 36, 3_000));
+    expect(result.breakEvenPeriod).toEqual(43);
+});
+
+test('Refinance with capitalised costs', () => {
+
+    const loan = currentLoan();
+    const result = refinance(loan, {
+        switchAfter: 12,
+        newLoan: {years: 29, interestRate: 5.9, establishmentFee: 600},
+        switchingCosts: 2_000,
+        capitaliseSwitchingCosts: true
+    });
+    expect(result.newLoan.amount.toFixed(2)).toEqual((loan.payments[11].balance + 2_000).toFixed(2));
+    expect(result.totalCost.toFixed(2)).toEqual((loan.totalCost - result.totalCostSaved).toFixed(2));
+    expect(result.breakEvenPeriod).toEqual(interestBreakEven(loan, result.payments, 12, 2_600));
+
+    // capitalised costs count without the fees paid upfront
+    const capitalised = refinance(loan, {
+        switchAfter: 36,
+        newLoan: {years: 27, interestRate: 5},
+        switchingCosts: 3_000,
+        capitaliseSwitchingCosts: true
+    });
+    expect(capitalised.breakEvenPeriod).toBeGreaterThan(36);
+    expect(capitalised.breakEvenPeriod).toEqual(interestBreakEven(loan, capitalised.payments, 36, 3_000));
+});
+
+test('Refinance to the same rate over a longer term never breaks even', () => {
+
+    const loan = currentLoan();
+    const result = refinance(loan, {
+        switchAfter: 36,
+        newLoan: {years: 30, interestRate: 6.5}
+    });
+    expect(result.newLoan.repaymentAmount).toBeLessThan(loan.repaymentAmount);
+    expect(result.totalCostSaved).toBeLessThan(0);
+    expect(result.breakEvenPeriod).toBeNull();
+});
+
+test('Refinance to the higher rate never breaks even', () => {
+
+    const loan = currentLoan();
+    const result = refinance(loan, {
+        switchAfter: 36,
+        newLoan: {years: 27, interestRate: 7},
+        switchingCosts: 1_000
+    });
+    expect(result.interestSaved).toBeLessThan(0);
+    expect(result.breakEvenPeriod).toBeNull();
+});
+
+test('Refinance after the last repayment', () => {
+
+    const loan = currentLoan();
+    const options = {newLoan: {years: 27, interestRate: 5.5}, switchingCosts: 3_000};
+    expect(() => refinance(loan, {...options, switchAfter: 1000})).toThrow(RangeError);
+    expect(() => refinance(loan, {...options, switchAfter: 360})).toThrow(RangeError);
+    expect(() => refinance(loan, {...options, switchAfter: -1})).toThrow(RangeError);
+    expect(() => refinance(loan, {...options, switchAfter: 1.5})).toThrow(RangeError);
+    expect(refinance(loan, {...options, switchAfter: 359}).newLoan.amount).toEqual(loan.payments[358].balance);
+
+    // paid off with the extra payment, leaving less than a cent
+    const repaid = currentLoan();
+    const payments = loan.payments;
+    repaid.extraPaymentEvents = [{start: 12, amount: payments[11].balance + payments[12].interest
+        - payments[12].repayment - 0.005}];
+    expect(repaid.payments[12].balance.toFixed(3)).toEqual('0.005');
+    expect(repaid.payments.length).toEqual(14);
+    expect(() => refinance(repaid, {...options, switchAfter: 13})).toThrow(/paid off/);
+});
@@ -0,0 +1,43 @@
+import {calculateLoan, Loan} from '../src';
+
+const options = {amount: 500_000, years: 30, interestRate: 6, startDate: new Date(2024, 0, 1)};
+
+test('Loan result', () => {
+
+    const result = calculateLoan(options);
+    const loan = new Loan(options);
+    expect(result.repaymentAmount).toEqual(loan.repaymentAmount);
+    expect(result.totalCost).toEqual(loan.totalCost);
+    expect(result.totalInterest).toEqual(loan.totalInterest);
+    expect(result.payments).toEqual(loan.payments);
+    expect(result.options).toEqual(loan.toOptions());
+
+    expect(Object.isFrozen(result)).toBeTruthy();
+    expect(Object.isFrozen(result.payments)).toBeTruthy();
+    expect(Object.isFrozen(result.payments[0])).toBeTruthy();
+    expect(Object.isFrozen(result.options)).toBeTruthy();
+    expect(() => (result as any).totalCost = 0).toThrow(TypeError);
+    expect(result.payments[0].date).not.toBe(loan.payments[0].date);
+});
+
+test('Immutable builder', () => {
+
+    const result = calculateLoan(options);
+    const lower = result.with({interestRate: 3.1});
+    expect(lower.options.interestRate).toEqual(3.1);
+    expect(lower.repaymentAmount).toEqual(new Loan({...options, interestRate: 3.1}).repaymentAmount);
+    expect(result.options.interestRate).toEqual(6);
+    expect(result.totalInterest).toEqual(calculateLoan(options).totalInterest);
+
+    const loan = new Loan(options);
+    const shorter = loan.with({years: 25});
+    expect(shorter.options.months).toEqual(300);
+    expect(loan.months).toEqual(360);
+    expect(Object.isFrozen(shorter)).toBeTruthy();
+    expect(Object.isFrozen(shorter.payments[0])).toBeTruthy();
+    expect(shorter.totalCost).toEqual(calculateLoan({...options, years: 25}).totalCost);
+
+    // not changed with the loan
+    loan.interestRate = 3.1;
+    expect(shorter.with({}).totalCost).toEqual(shorter.totalCost);
+});
@@ -0,0 +1,83 @@
+import {Loan, solveAmount, solveInterestRate, solveTerm} from '../src';
+
+function newLoan(amount: number, years: number, rate: number): Loan {
+    const loan = new Loan();
+    loan.amount = amount;
+    loan.years = years;
+    loan.interestRate = rate;
+    return loan;
+}
+
+test('Solve for amount', () => {
+
+    const loan = newLoan(0, 25, 6);
+    const amount = solveAmount(loan, {repaymentAmount: 3000}) as number;
+    expect(amount.toFixed(0)).toEqual('465621');
+    loan.amount = amount;
+    expect(loan.repaymentAmount.toFixed(2)).toEqual('3000.00');
+
+    const fortnightly = newLoan(800_000, 25, 2.56);
+    fortnightly.repaymentFrequency = 'fortnightly';
+    fortnightly.interestOnlyRepaymentCount = 26;
+    fortnightly.extraPayment = 100;
+    const totalCost = fortnightly.totalCost;
+    fortnightly.amount = 0;
+    expect((solveAmount(fortnightly, {totalCost: totalCost}) as number).toFixed(0)).toEqual('800000');
+});
+
+test('Solve for term', () => {
+
+    const loan = newLoan(800_000, 0, 2.56);
+    expect(solveTerm(loan, {repaymentAmount: 14_220})).toEqual(60);
+    expect(solveTerm(loan, {repaymentAmount: 14_219})).toEqual(61);
+
+    loan.repaymentFrequency = 'fortnightly';
+    const months = solveTerm(loan, {repaymentAmount: 4_000}) as number;
+    loan.months = months;
+    expect(loan.repaymentAmount).toBeLessThanOrEqual(4_000);
+    loan.months = months - 1;
+    expect(loan.repaymentAmount).toBeGreaterThan(4_000);
+
+    loan.repaymentFrequency = 'monthly';
+    loan.months = 60;
+    const totalCost = loan.totalCost;
+    loan.months = 0;
+    expect(solveTerm(loan, {totalCost: totalCost + 100})).toEqual(60);
+
+    // repayment doesn't cover the interest
+    expect(solveTerm(loan, {repaymentAmount: 1_000})).toBeNull();
+});
+
+test('Solve for interest rate', () => {
+
+    const loan = newLoan(800_000, 5, 0);
+    expect((solveInterestRate(loan, {repaymentAmount: 14_219.07}) as number).toFixed(4)).toEqual('2.5600');
+    expect((solveInterestRate(loan, {totalCost: 853_144}) as number).toFixed(2)).toEqual('2.56');
+
+    loan.interestOnlyRepaymentCount = 12;
+    loan.interestRate = 3.1;
+    const repayment = loan.repaymentAmount;
+    expect((solveInterestRate(loan, {repaymentAmount: repayment}) as number).toFixed(4)).toEqual('3.1000');
+
+    // less than the amount divided by the repayments count
+    expect(solveInterestRate(loan, {repaymentAmount: 10_000})).toBeNull();
+});
+
+test('Solve for ARM and strict loans', () => {
+
+    // terms within the fixed rate period are invalid
+    const arm = newLoan(500_000, 30, 6);
+    arm.armFixedRateForYears = 5;
+    expect(solveTerm(arm, {repaymentAmount: 9_000})).toEqual(66);
+    arm.months = 66;
+    expect(arm.repaymentAmount).toBeLessThanOrEqual(9_000);
+
+    const strict = newLoan(500_000, 30, 6);
+    strict.strictValidation = true;
+    const amount = solveAmount(strict, {repaymentAmount: 3_000}) as number;
+    expect(amount.toFixed(0)).toEqual('500375');
+    expect(solveTerm(strict, {repaymentAmount: 3_000})).toEqual(360);
+    expect((solveInterestRate(strict, {repaymentAmount: strict.repaymentAmount}) as number).toFixed(4))
+        .toEqual('6.0000');
+    expect(strict.strictValidation).toBeTruthy();
+});
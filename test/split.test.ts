@@ -0,0 +1,64 @@
+import {Loan, SplitLoan} from '../src';
+
+function fixedPart(): Loan {
+    return new Loan({
+        amount: 360_000,
+        years: 30,
+        interestRate: 5.5,
+        startDate: new Date(2024, 0, 1),
+        rateChanges: [{start: 36, rate: 6.5}]
+    });
+}
+
+function variablePart(): Loan {
+    return new Loan({
+        amount: 240_000,
+        years: 30,
+        interestRate: 6.5,
+        startDate: new Date(2024, 0, 1),
+        offsetBalance: 20_000
+    });
+}
+
+test('Split loan with the same repayment frequency', () => {
+
+    const fixed = fixedPart();
+    const variable = variablePart();
+    const loan = new SplitLoan([fixed, variable]);
+    expect(loan.amount).toEqual(600_000);
+    expect(loan.repaymentFrequency).toEqual('monthly');
+    expect(loan.repaymentAmount).toEqual(fixed.repaymentAmount + variable.repaymentAmount);
+    expect(loan.totalInterest).toEqual(fixed.totalInterest + variable.totalInterest);
+    expect(loan.totalCost).toEqual(fixed.totalCost + variable.totalCost);
+
+    const payments = loan.payments;
+    expect(payments.length).toEqual(Math.max(fixed.payments.length, variable.payments.length));
+    expect(payments[0].amount).toEqual(fixed.payments[0].amount + variable.payments[0].amount);
+    expect(payments[0].balance).toEqual(fixed.payments[0].balance + variable.payments[0].balance);
+    expect(payments[0].offsetBalance).toEqual(20_000);
+    expect(payments[0].rate.toFixed(2)).toEqual('5.90'); // 60% at 5.5 and 40% at 6.5
+    expect(payments[36].rate.toFixed(1)).toEqual('6.5');
+    expect(payments[payments.length - 1].balance.toFixed(2)).toEqual('0.00');
+});
+
+test('Split loan with different repayment frequencies', () => {
+
+    const fixed = fixedPart();
+    const variable = variablePart();
+    variable.repaymentFrequency = 'fortnightly';
+    const loan = new SplitLoan([fixed, variable]);
+    expect(loan.repaymentFrequency).toEqual('monthly');
+    expect(loan.repaymentAmount.toFixed(2))
+        .toEqual((fixed.repaymentAmount + variable.repaymentAmount * 26 / 12).toFixed(2));
+
+    const payments = loan.payments;
+    const dates = payments.map(p => p.date.getTime());
+    expect(dates).toEqual(dates.slice().sort((a, b) => a - b));
+    expect(payments.length).toBeGreaterThan(fixed.payments.length);
+    expect(payments.reduce((sum, p) => sum + p.interest, 0).toFixed(2)).toEqual(loan.totalInterest.toFixed(2));
+
+    // fortnightly repayment dates keep the fixed part balance
+    const fortnightly = payments.slice(1).filter(p => p.date.getDate() !== 1)[0];
+    const previous = payments[payments.indexOf(fortnightly) - 1];
+    expect(fortnightly.balance.toFixed(2)).toEqual((previous.balance - fortnightly.principal).toFixed(2));
+});
@@ -0,0 +1,79 @@
+import {Loan, ScheduledRateAdjustment, stressTest} from '../src';
+
+function newLoan(): Loan {
+    return new Loan({amount: 600_000, years: 30, interestRate: 6, startDate: new Date(2024, 0, 1)});
+}
+
+test('Rate shocks', () => {
+
+    const loan = newLoan();
+    const result = stressTest(loan, {rateShocks: [1, 2, 3]});
+    expect(result.base.repaymentAmount).toEqual(loan.repaymentAmount);
+    expect(result.base.totalInterest).toEqual(loan.totalInterest);
+    expect(result.base.repaymentChange).toEqual(0);
+    expect(result.scenarios.map(s => [s.rateShock, s.months, s.interestRate])).toEqual([
+        [1, 360, 7],
+        [2, 360, 8],
+        [3, 360, 9]
+    ]);
+
+    // same as the loan with the higher rate
+    const buffer = result.scenarios[2];
+    const higher = newLoan();
+    higher.interestRate = 9;
+    expect(buffer.repaymentAmount).toEqual(higher.repaymentAmount);
+    expect(buffer.totalCost).toEqual(higher.totalCost);
+    expect(buffer.repaymentChange).toEqual(higher.repaymentAmount - loan.repaymentAmount);
+    expect(buffer.totalInterestChange).toEqual(higher.totalInterest - loan.totalInterest);
+    expect(result.scenarios[0].repaymentChange).toBeGreaterThan(0);
+    expect(result.scenarios[1].repaymentChange).toBeLessThan(buffer.repaymentChange);
+
+    // rate decrease doesn't go below 0
+    expect(stressTest(loan, {rateShocks: [-7]}).scenarios[0].totalInterest).toEqual(0);
+    expect(loan.interestRateShock).toEqual(0);
+});
+
+test('Rate × term grid', () => {
+
+    const loan = newLoan();
+    const result = stressTest(loan, {rateShocks: [0, 3], years: [25, 30]});
+    expect(result.scenarios.map(s => [s.months, s.rateShock])).toEqual([[300, 0], [300, 3], [360, 0], [360, 3]]);
+    expect(result.bases.map(s => [s.months, s.rateShock])).toEqual([[300, 0], [360, 0]]);
+    expect(result.bases[0].repaymentChange).toBeGreaterThan(0);
+    expect(result.bases[0].totalInterestChange).toBeLessThan(0);
+    expect(result.bases[1]).toEqual(result.base);
+
+    // changes against the unshocked loan with the same term
+    expect(result.scenarios[0].repaymentChange).toEqual(0);
+    expect(result.scenarios[0].totalCostChange).toEqual(0);
+    expect(result.scenarios[1].repaymentChange).toEqual(
+        result.scenarios[1].repaymentAmount - result.bases[0].repaymentAmount);
+    expect(result.scenarios[1].repaymentChange).toBeGreaterThan(0);
+    expect(result.scenarios[2].totalCostChange).toEqual(0);
+    expect(result.scenarios[3].totalInterestChange).toEqual(
+        result.scenarios[3].totalInterest - result.base.totalInterest);
+});
+
+test('Stress test with ARM and interest only repayments', () => {
+
+    const loan = newLoan();
+    loan.interestOnlyYears = 5;
+    loan.armFixedRateForYears = 3;
+    loan.armRateAdjustmentStrategy = new ScheduledRateAdjustment([6.5, 7]);
+    loan.rateChanges = [{start: 120, rate: 5}];
+    const shocked = loan.clone();
+    shocked.interestRateShock = 2;
+
+    const payments = shocked.payments;
+    expect(payments[0].rate).toEqual(8);
+    expect(payments[0].interest).toEqual(4000); // interest only at 8%
+    expect(payments[36].rate).toEqual(8.5);
+    expect(payments[48].rate).toEqual(9);
+    expect(payments[120].rate).toEqual(7);
+    expect(payments.map(p => p.rate)).toEqual(loan.payments.map(p => p.rate + 2));
+
+    const result = stressTest(loan, {rateShocks: [2]});
+    expect(result.scenarios[0].totalInterest).toEqual(shocked.totalInterest);
+    expect(result.scenarios[0].repaymentAmount).toEqual(shocked.repaymentAmount);
+    expect(result.scenarios[0].repaymentAmount).toBeGreaterThan(result.base.repaymentAmount);
+});
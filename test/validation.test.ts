@@ -0,0 +1,143 @@
+import {Loan, LoanValidationError, solveInterestRate} from '../src';
+
+function newLoan(): Loan {
+    return new Loan({amount: 300_000, years: 30, interestRate: 6, startDate: new Date(2024, 0, 1)});
+}
+
+test('Validation issues', () => {
+
+    expect(new Loan().validate()).toEqual([
+        {field: 'amount', code: 'required', message: 'amount: the loan amount is not set'},
+        {field: 'months', code: 'required', message: 'months: the loan term is not set'}
+    ]);
+    expect(newLoan().validate()).toEqual([]);
+
+    const loan = newLoan();
+    loan.amount = NaN;
+    loan.interestRate = -1;
+    loan.extraPaymentEvents = [{start: -1, amount: 1000}];
+    expect(loan.validate().map(issue => [issue.field, issue.code])).toEqual([
+        ['amount', 'invalid-number'],
+        ['interestRate', 'negative'],
+        ['extraPaymentEvents[0].start', 'negative']
+    ]);
+
+    const conflicting = newLoan();
+    conflicting.interestOnlyRepaymentCount = 361;
+    conflicting.armRateAdjustmentStrategy = {adjust: () => 7};
+    conflicting.armFixedRateForYears = 30;
+    conflicting.balloonAmount = 400_000;
+    conflicting.firstPaymentDate = new Date(2023, 11, 1);
+    expect(conflicting.validate().map(issue => [issue.field, issue.code])).toEqual([
+        ['interestOnlyRepaymentCount', 'exceeds-term'],
+        ['armFixedRateForRepaymentCount', 'exceeds-term'],
+        ['balloonAmount', 'exceeds-amount'],
+        ['firstPaymentDate', 'before-start']
+    ]);
+});
+
+test('Invalid option values', () => {
+
+    const loan = newLoan();
+    (loan as any).repaymentFrequency = 'daily';
+    loan.repaymentHolidays = [{type: 'skip' as any, start: 12}];
+    expect(loan.validate().map(issue => [issue.field, issue.code])).toEqual([
+        ['repaymentFrequency', 'invalid-value'],
+        ['repaymentHolidays[0].type', 'invalid-value']
+    ]);
+    expect(loan.validate()[0].message).toEqual(
+        'repaymentFrequency: expected one of yearly, quarterly, monthly, fortnightly, weekly');
+    expect(loan.payments).toEqual([]);
+
+    const strict = newLoan();
+    strict.strictValidation = true;
+    expect(() => (strict as any).amortisationMethod = 'balloon').toThrow(/amortisationMethod: expected one of/);
+    expect(strict.amortisationMethod).toEqual('annuity');
+});
+
+test('Invalid loan calculation', () => {
+
+    const loan = newLoan();
+    loan.establishmentFee = 600;
+    expect(loan.payments.length).toEqual(360);
+
+    // no stale results
+    loan.months = 0;
+    expect(loan.payments).toEqual([]);
+    expect(loan.totalCost).toEqual(0);
+    expect(loan.repaymentAmount).toEqual(0);
+});
+
+test('Strict validation', () => {
+
+    const loan = newLoan();
+    loan.strictValidation = true;
+    expect(() => loan.amount = -1).toThrow(LoanValidationError);
+    try {
+        loan.interestRate = NaN;
+    } catch (e) {
+        expect(e instanceof LoanValidationError).toBeTruthy();
+        expect(e.issues.map((issue: any) => issue.code)).toEqual(['invalid-number']);
+    }
+    expect(loan.amount).toEqual(300_000);
+    expect(loan.interestRate).toEqual(6);
+    loan.interestRate = 4; // not failing on the previous invalid values
+    expect(loan.interestRate).toEqual(4);
+    expect(() => loan.years = -1).toThrow(LoanValidationError);
+    expect(loan.months).toEqual(360);
+
+    // turned on for the invalid loan
+    const invalid = newLoan();
+    invalid.amount = -1;
+    expect(() => invalid.strictValidation = true).toThrow(LoanValidationError);
+    expect(invalid.strictValidation).toEqual(false);
+    expect(invalid.amount).toEqual(-1);
+    const copy = loan.clone();
+    expect(() => copy.amount = -1).toThrow(LoanValidationError);
+    expect(copy.amount).toEqual(300_000);
+    expect(copy.strictValidation).toEqual(true);
+
+    const conflicting = newLoan();
+    conflicting.strictValidation = true;
+    conflicting.interestOnlyYears = 31; // can be followed by the longer term
+    expect(() => conflicting.payments).toThrow(/interest only period is longer than the loan term/);
+    expect(() => conflicting.repaymentAmount).toThrow(LoanValidationError);
+    conflicting.years = 35;
+    expect(conflicting.payments.length).toEqual(420);
+    expect(conflicting.clone().strictValidation).toEqual(true);
+});
+
+test('Zero rate', () => {
+
+    const loan = newLoan();
+    loan.interestRate = 0;
+    expect(loan.repaymentAmount.toFixed(2)).toEqual('833.33');
+    expect(loan.payments.length).toEqual(360);
+    expect(loan.totalInterest).toEqual(0);
+    expect(loan.totalCost.toFixed(2)).toEqual('300000.00');
+    expect(loan.payments[359].balance.toFixed(2)).toEqual('0.00');
+
+    loan.balloonAmount = 30_000;
+    expect(loan.repaymentAmount).toEqual(750);
+
+    const rate = solveInterestRate(newLoan(), {repaymentAmount: 300_000 / 360});
+    expect(rate).not.toBeNull();
+    expect(rate!).toBeCloseTo(0, 4);
+});
+
+test('Interest only for the whole term', () => {
+
+    const loan = newLoan();
+    loan.interestOnlyRepaymentCount = 360;
+    expect(loan.validate()).toEqual([]);
+    expect(loan.repaymentAmount).toEqual(1500);
+    expect(loan.payments[359].interest).toEqual(1500);
+    expect(loan.totalInterest).toEqual(540_000);
+    expect(loan.payments[loan.payments.length - 1].balance).toEqual(0);
+
+    loan.repaymentFrequency = 'fortnightly';
+    loan.interestOnlyRepaymentCount = 780;
+    expect(isFinite(loan.repaymentAmount)).toBeTruthy();
+    loan.interestRate = 0;
+    expect(loan.repaymentAmount).toEqual(0);
+});